@@ -11,11 +11,31 @@ import {
 	type CompletionResult,
 	type Completion
 } from '@codemirror/autocomplete';
+import { CONTAINER_ELEMENTS } from '$lib/parser/ast';
+import { hasHeader } from '$lib/parser/markers';
+import { isEscapeAt, findClosingQuote } from '$lib/parser/escapes';
+import { KID_COLORS, CSS_COLORS } from '$lib/parser/colors';
+import { SIZE_NAMES, type SizeName } from '$lib/parser/values';
+import { ELEMENT_ATTRIBUTES, PROPERTY_DEFINITIONS, propertiesFor } from '$lib/parser/schema';
 
 // =============================================================================
 // Element Completions
 // =============================================================================
 
+/**
+ * One completion per container in the shared registry.
+ * divide comes first; the rest rank a little lower.
+ */
+const containerCompletions: Completion[] = Object.entries(CONTAINER_ELEMENTS).map(
+	([name, definition]) => ({
+		label: `=${name}=`,
+		type: 'keyword',
+		detail: 'Container element',
+		info: `📦 ${definition.description}`,
+		boost: name === 'divide' ? undefined : -1
+	})
+);
+
 const elementCompletions: Completion[] = [
 	{
 		label: '=title=',
@@ -60,12 +80,7 @@ const elementCompletions: Completion[] = [
 		detail: 'Input element',
 		info: '⌨️ A text box where users can type'
 	},
-	{
-		label: '=divide=',
-		type: 'keyword',
-		detail: 'Container element',
-		info: '📦 Groups other elements together, like a box'
-	},
+	...containerCompletions,
 	{
 		label: '=img=',
 		type: 'keyword',
@@ -112,44 +127,24 @@ const structureCompletions: Completion[] = [
 // Property Completions
 // =============================================================================
 
-const propertyCompletions: Completion[] = [
-	{
-		label: 'id:',
-		type: 'property',
-		detail: 'Element ID',
-		info: '🏷️ Give your element a unique name'
-	},
-	{
-		label: 'color=',
-		type: 'property',
-		detail: 'Color property',
-		info: '🎨 Set the color (use 6 hex characters like FF0000)'
-	},
-	{
-		label: 'outline=',
-		type: 'property',
-		detail: 'Visibility property',
-		info: '👁️ Show or hide the element outline'
-	},
-	{
-		label: 'font-size=',
-		type: 'property',
-		detail: 'Size property',
-		info: '📏 Set how big the text is (use a number)'
-	},
-	{
-		label: 'in=',
-		type: 'property',
-		detail: 'Position property',
-		info: '📍 Position the element (left, middle, or right)'
-	},
-	{
-		label: 'size=',
-		type: 'property',
-		detail: 'Size property',
-		info: '📐 Set the size of an element'
-	}
-];
+/**
+ * Property completions for an element, from the property schema:
+ * its own attributes first, then the properties every element has
+ */
+function propertyCompletionsFor(elementType: string): Completion[] {
+	const own = new Set(Object.hasOwn(ELEMENT_ATTRIBUTES, elementType) ? ELEMENT_ATTRIBUTES[elementType] : []);
+	return propertiesFor(elementType).map((name) => {
+		const { emoji, description } = PROPERTY_DEFINITIONS[name];
+		return {
+			// IDs are written id:name
+			label: name === 'id' ? 'id:' : `${name}=`,
+			type: 'property',
+			detail: own.has(name) ? `=${elementType}= property` : 'Property',
+			info: `${emoji} ${description}`,
+			boost: own.has(name) ? 1 : 0
+		};
+	});
+}
 
 // =============================================================================
 // Property Value Completions
@@ -170,6 +165,22 @@ const outlineValues: Completion[] = [
 	}
 ];
 
+/** What each named size looks like */
+const SIZE_INFO: Record<SizeName, string> = {
+	tiny: '🐜 Really small',
+	small: '🐭 Smaller than usual',
+	medium: '🐶 In-between',
+	big: '🐘 Bigger than usual',
+	huge: '🐳 As big as it gets'
+};
+
+const sizeValues: Completion[] = SIZE_NAMES.map((name) => ({
+	label: name,
+	type: 'constant',
+	detail: 'Named size',
+	info: SIZE_INFO[name]
+}));
+
 const positionValues: Completion[] = [
 	{
 		label: 'left',
@@ -191,91 +202,23 @@ const positionValues: Completion[] = [
 	}
 ];
 
+/**
+ * Color completions from the same tables the parser checks colors with:
+ * kid-friendly names first, then the CSS color names
+ */
 const colorCompletions: Completion[] = [
-	{
-		label: 'FF0000',
-		type: 'constant',
-		detail: 'Red',
-		info: '🔴 Bright red color'
-	},
-	{
-		label: '00FF00',
-		type: 'constant',
-		detail: 'Green',
-		info: '🟢 Bright green color'
-	},
-	{
-		label: '0000FF',
-		type: 'constant',
-		detail: 'Blue',
-		info: '🔵 Bright blue color'
-	},
-	{
-		label: 'FFFF00',
-		type: 'constant',
-		detail: 'Yellow',
-		info: '🟡 Bright yellow color'
-	},
-	{
-		label: 'FF00FF',
+	...Object.entries(KID_COLORS).map(([name, color]) => ({
+		label: name,
 		type: 'constant',
-		detail: 'Magenta/Pink',
-		info: '🟣 Bright pink/magenta color'
-	},
-	{
-		label: '00FFFF',
-		type: 'constant',
-		detail: 'Cyan',
-		info: '🩵 Bright cyan/aqua color'
-	},
-	{
-		label: 'FFFFFF',
-		type: 'constant',
-		detail: 'White',
-		info: '⬜ Pure white color'
-	},
-	{
-		label: '000000',
-		type: 'constant',
-		detail: 'Black',
-		info: '⬛ Pure black color'
-	},
-	{
-		label: 'FFA500',
-		type: 'constant',
-		detail: 'Orange',
-		info: '🟠 Bright orange color'
-	},
-	{
-		label: '800080',
-		type: 'constant',
-		detail: 'Purple',
-		info: '💜 Purple color'
-	},
-	{
-		label: 'FFC0CB',
-		type: 'constant',
-		detail: 'Pink',
-		info: '💗 Light pink color'
-	},
-	{
-		label: 'A52A2A',
-		type: 'constant',
-		detail: 'Brown',
-		info: '🟤 Brown color'
-	},
-	{
-		label: '808080',
-		type: 'constant',
-		detail: 'Gray',
-		info: '🩶 Gray color'
-	},
-	{
-		label: 'BAF2Y9',
+		detail: color.hex,
+		info: `${color.emoji} ${color.description}`,
+		boost: 1
+	})),
+	...Object.entries(CSS_COLORS).map(([name, hex]) => ({
+		label: name,
 		type: 'constant',
-		detail: 'CTIW Mint',
-		info: '🌿 Special CTIW mint green color!'
-	}
+		detail: hex
+	}))
 ];
 
 const languageCompletions: Completion[] = [
@@ -336,6 +279,31 @@ function getLineBefore(context: CompletionContext): string {
 	return context.state.sliceDoc(line.from, context.pos);
 }
 
+/**
+ * Blank out escapes (like \=) and "quoted" text, so the = signs in them
+ * aren't taken as delimiters. The text keeps its length.
+ * Returns null when the cursor is inside quotes.
+ */
+function maskEscapes(lineBefore: string): string | null {
+	let masked = '';
+	for (let i = 0; i < lineBefore.length; i++) {
+		if (isEscapeAt(lineBefore, i)) {
+			masked += '__';
+			i++;
+		} else if (lineBefore[i] === '"' && /[=:]/.test(lineBefore[i - 1] ?? '')) {
+			const close = findClosingQuote(lineBefore, i);
+			if (close === -1) {
+				return null;
+			}
+			masked += '_'.repeat(close - i + 1);
+			i = close;
+		} else {
+			masked += lineBefore[i];
+		}
+	}
+	return masked;
+}
+
 /**
  * Check if we're at the beginning of a line (ignoring dots for indentation)
  */
@@ -354,12 +322,14 @@ function isAfterEquals(lineBefore: string): boolean {
  * Check if we're after a property name
  */
 function getPropertyContext(lineBefore: string): string | null {
-	// Check for color=
+	// Check for text-color=, background-color=, border-color= (and the older color=)
 	if (/color=\s*$/.test(lineBefore)) return 'color';
 	// Check for outline=
 	if (/outline=\s*$/.test(lineBefore)) return 'outline';
 	// Check for in=
 	if (/in=\s*$/.test(lineBefore)) return 'in';
+	// Check for size= (but not font-size=)
+	if (/(?<![\w-])size=\s*$/.test(lineBefore)) return 'size';
 	// Check for language=
 	if (/language=\s*$/.test(lineBefore)) return 'language';
 	// Check for id: (user should type their own)
@@ -376,12 +346,25 @@ function isInElementContext(lineBefore: string): boolean {
 	return /=\w+=[^=]*=\s+$/.test(lineBefore) || /=\w+=\s+$/.test(lineBefore);
 }
 
+/**
+ * Get the type of the element a line starts, like button for "=button=Go= "
+ * (==content== is text)
+ */
+function elementTypeOf(lineBefore: string): string {
+	const match = lineBefore.match(/^[ \t]*(?:\d+[ \t]+)?\.*[ \t]*(==?)([\w-]+)=/);
+	if (!match) {
+		return 'text';
+	}
+	const name = match[2].toLowerCase();
+	return match[1] === '=' || name === 'divide' ? name : 'text';
+}
+
 /**
  * Check if the document is empty or just started
  */
 function isDocumentStart(context: CompletionContext): boolean {
 	const doc = context.state.doc.toString();
-	return doc.trim() === '' || !doc.includes('=CTIW=');
+	return doc.trim() === '' || !hasHeader(doc);
 }
 
 // =============================================================================
@@ -389,7 +372,11 @@ function isDocumentStart(context: CompletionContext): boolean {
 // =============================================================================
 
 function ctiwCompletions(context: CompletionContext): CompletionResult | null {
-	const lineBefore = getLineBefore(context);
+	// Nothing to complete inside quotes
+	const lineBefore = maskEscapes(getLineBefore(context));
+	if (lineBefore === null) {
+		return null;
+	}
 
 	// Check property context first (most specific)
 	const propContext = getPropertyContext(lineBefore);
@@ -399,7 +386,7 @@ function ctiwCompletions(context: CompletionContext): CompletionResult | null {
 				return {
 					from: context.pos,
 					options: colorCompletions,
-					validFor: /^[A-Fa-f0-9]*$/
+					validFor: /^[\w#-]*$/
 				};
 			case 'outline':
 				return {
@@ -419,6 +406,12 @@ function ctiwCompletions(context: CompletionContext): CompletionResult | null {
 					options: languageCompletions,
 					validFor: /^[a-z]*$/i
 				};
+			case 'size':
+				return {
+					from: context.pos,
+					options: sizeValues,
+					validFor: /^[a-z]*$/i
+				};
 			case 'id':
 				// User should type their own ID, no suggestions
 				return null;
@@ -429,7 +422,7 @@ function ctiwCompletions(context: CompletionContext): CompletionResult | null {
 	if (isInElementContext(lineBefore)) {
 		return {
 			from: context.pos,
-			options: propertyCompletions,
+			options: propertyCompletionsFor(elementTypeOf(lineBefore)),
 			validFor: /^[a-z-]*$/i
 		};
 	}
@@ -464,7 +457,7 @@ function ctiwCompletions(context: CompletionContext): CompletionResult | null {
 
 	// Check if we're at line start (or just dots)
 	if (isAtLineStart(lineBefore)) {
-		// At document start, prioritize =CTIW=
+		// At document start, prioritize the =CTIW= / ==CTIW== header
 		if (isDocumentStart(context)) {
 			return {
 				from: context.pos,
@@ -512,7 +505,7 @@ function ctiwCompletions(context: CompletionContext): CompletionResult | null {
 	if (propMatch && isInElementContext(lineBefore.slice(0, -propMatch[1].length))) {
 		return {
 			from: context.pos - propMatch[1].length,
-			options: propertyCompletions,
+			options: propertyCompletionsFor(elementTypeOf(lineBefore)),
 			validFor: /^[a-z-]*$/i
 		};
 	}
@@ -6,44 +6,104 @@
  */
 
 import { StreamLanguage, LanguageSupport, StringStream } from '@codemirror/language';
-import { tags as t } from '@lezer/highlight';
+import { tags as t, Tag } from '@lezer/highlight';
 import { HighlightStyle, syntaxHighlighting } from '@codemirror/language';
 import { EditorView } from '@codemirror/view';
+import { CONTAINER_ELEMENTS } from '$lib/parser/ast';
+import { matchMarker } from '$lib/parser/markers';
+import { isEscapeAt, findClosingQuote } from '$lib/parser/escapes';
+import { EMOJI } from '$lib/parser/inline';
+
+// Highlighting tag for ~underlined~ text (there's no standard one)
+const underline = Tag.define();
+
+// Inline formatting in content: *bold*, _italic_ and ~underline~
+const INLINE_STYLES: [RegExp, string][] = [
+	[/^\*[^*\s](?:[^*]*[^*\s])?\*/, 'strong'],
+	[/^_[^_\s](?:[^_]*[^_\s])?_/, 'emphasis'],
+	[/^~[^~\s](?:[^~]*[^~\s])?~/, 'underline']
+];
 
 // State for the stream parser
 interface CTIWState {
 	inElement: boolean;
 	afterEquals: boolean;
 	expectingValue: boolean;
+	inBlockComment: boolean;
+	inTextBlock: boolean;
 }
 
+// A line that starts a text block: just =text= or ==text== (the highlighter can't
+// look ahead for the closing line, so an opener with attributes isn't counted)
+const TEXT_BLOCK_OPENER = /^\s*(\d+[ \t]+)?[\s.]*(==text==|=text=)\s*$/i;
+
+// The line that ends a text block: just = or ==
+const TEXT_BLOCK_CLOSER = /^\s*(\d+[ \t]+)?\.*[ \t]*==?\s*$/;
+
+// A line that starts a statement or marker, which a text block never takes
+const STATEMENT_LINE = /^\s*(\d+[ \t]+)?\.*[ \t]*==?[A-Za-z(]/;
+
 /**
  * Stream parser for CTIW language
  */
 const ctiwStreamParser = {
 	name: 'ctiw',
 
+	tokenTable: {
+		underline
+	},
+
 	startState(): CTIWState {
 		return {
 			inElement: false,
 			afterEquals: false,
-			expectingValue: false
+			expectingValue: false,
+			inBlockComment: false,
+			inTextBlock: false
 		};
 	},
 
 	token(stream: StringStream, state: CTIWState): string | null {
+		// Inside a /* */ comment that started on an earlier line
+		if (state.inBlockComment) {
+			state.inBlockComment = !stream.match(/^.*?\*\//);
+			if (state.inBlockComment) {
+				stream.skipToEnd();
+			}
+			return 'comment';
+		}
+
+		// Lines of a text block are plain text until the closing = or == (or the next statement)
+		if (stream.sol()) {
+			if (state.inTextBlock && !TEXT_BLOCK_CLOSER.test(stream.string) && !STATEMENT_LINE.test(stream.string)) {
+				stream.skipToEnd();
+				return 'string';
+			}
+			state.inTextBlock = TEXT_BLOCK_OPENER.test(stream.string);
+		}
+
 		// Skip whitespace at start of token
 		if (stream.eatSpace()) {
 			return null;
 		}
 
-		// Comments (if we add them - lines starting with //)
-		if (stream.match(/^\/\/.*/)) {
-			return 'comment';
+		// Comments start a line (after any line number and dots): // to the end, or a /* */ block
+		if (/^\s*(\d+[ \t]+)?[\s.]*$/.test(stream.string.slice(0, stream.pos))) {
+			if (stream.match(/^\/\/.*/)) {
+				return 'comment';
+			}
+			if (stream.match('/*')) {
+				state.inBlockComment = !stream.match(/^.*?\*\//);
+				if (state.inBlockComment) {
+					stream.skipToEnd();
+				}
+				return 'comment';
+			}
 		}
 
 		// Document markers: =CTIW= and ==CTIW==
-		if (stream.match(/^==?CTIW==?/i)) {
+		const marker = matchMarker(stream.string, stream.pos);
+		if (marker && stream.match(marker)) {
 			return 'keyword';
 		}
 
@@ -53,26 +113,70 @@ const ctiwStreamParser = {
 		}
 
 		// Line numbers at start (like "1 " or "42 ")
-		if (stream.match(/^\d+\s+(?==)/)) {
+		if (stream.string.slice(0, stream.pos).trim() === '' && stream.match(/^\d+(?=[ \t])/)) {
 			return 'lineNumber';
 		}
 
+		// Escapes like \= stand for the character after the backslash
+		if (isEscapeAt(stream.string, stream.pos)) {
+			stream.pos += 2;
+			return 'escape';
+		}
+
+		// "Quoted" content and values (right after = or :) run to the closing quote
+		if (stream.peek() === '"' && /[=:]$/.test(stream.string.slice(0, stream.pos))) {
+			const close = findClosingQuote(stream.string, stream.pos);
+			if (close === -1) {
+				stream.skipToEnd();
+			} else {
+				stream.pos = close + 1;
+			}
+			return 'string';
+		}
+
+		// Inline formatting, at the start of a word
+		if (!/[\p{L}\p{N}]$/u.test(stream.string.slice(0, stream.pos))) {
+			for (const [pattern, style] of INLINE_STYLES) {
+				if (stream.match(pattern)) {
+					return style;
+				}
+			}
+		}
+
+		// Inline links: [text](https://...)
+		if (stream.match(/^\[[^\]]*\]\([^()\s]+\)/)) {
+			return 'link';
+		}
+
+		// Colored text: {red: ...}
+		if (stream.match(/^\{#?[A-Za-z0-9]+:/) || stream.match('}')) {
+			return 'meta';
+		}
+
+		// Emoji shortcodes: :smile:
+		const emoji = stream.match(/^:([a-z0-9_+-]+):/, false) as RegExpMatchArray | null;
+		if (emoji && Object.hasOwn(EMOJI, emoji[1])) {
+			stream.pos += emoji[0].length;
+			return 'atom';
+		}
+
 		// Special elements: (time), (date), etc.
 		if (stream.match(/^\([\w-]+\)/)) {
 			return 'atom';
 		}
 
-		// Hex colors (6 characters that look like hex)
-		// Match after = for values like color=FF0000=
-		if (stream.match(/^[0-9A-Fa-f]{6}(?==|\s|$)/)) {
+		// Hex colors (6 or 8 characters that look like hex, or 3 after a #)
+		// Match after = for values like color=FF0000= or color=#F00=
+		if (stream.match(/^(?:#[0-9A-Fa-f]{3}|#?[0-9A-Fa-f]{6}(?:[0-9A-Fa-f]{2})?)(?==|\s|$)/)) {
 			return 'color';
 		}
 
 		// Element names after =
 		const elementNames = [
 			'title', 'text', 'line', 'button', 'password',
-			'input', 'divide', 'img', 'link', 'list',
-			'sound', 'video', 'game'
+			'input', 'img', 'link', 'list',
+			'sound', 'video', 'game',
+			...Object.keys(CONTAINER_ELEMENTS)
 		];
 		const elementPattern = new RegExp(`^(${elementNames.join('|')})(?==|\\s|$)`, 'i');
 		if (stream.match(elementPattern)) {
@@ -81,7 +185,8 @@ const ctiwStreamParser = {
 
 		// Property names (before : or =)
 		const propertyNames = [
-			'id', 'color', 'outline', 'font-size', 'size',
+			'id', 'text-color', 'background-color', 'border-color', 'color',
+			'outline', 'font-size', 'size',
 			'in', 'language', 'visible', 'invisible',
 			'left', 'right', 'middle', 'center'
 		];
@@ -110,6 +215,12 @@ const ctiwStreamParser = {
 		// Values/strings - anything between = signs that isn't a keyword
 		// Match word characters, spaces, hyphens, underscores, dots
 		if (stream.match(/^[\w\s\-_.]+/)) {
+			// Stop before _italic_ text, so it gets its own color
+			const italic = stream.current().search(/(?<![\p{L}\p{N}_])_(?=[^\s_])/u);
+			if (italic > 0) {
+				stream.backUp(stream.current().length - italic);
+			}
+
 			// Check if this looks like a known keyword/element
 			const text = stream.current().trim().toLowerCase();
 			if (elementNames.includes(text)) {
@@ -159,6 +270,18 @@ export const ctiwHighlightStyle = HighlightStyle.define([
 	// Punctuation (=, :, dots) - light gray
 	{ tag: t.punctuation, color: '#888888' },
 
+	// Escapes like \= - bold yellow, so they stand out from the text
+	{ tag: t.escape, color: '#FFD700', fontWeight: 'bold' },
+
+	// Inline formatting - looks like what it does
+	{ tag: t.strong, color: '#FFA500', fontWeight: 'bold' },
+	{ tag: t.emphasis, color: '#FFA500', fontStyle: 'italic' },
+	{ tag: underline, color: '#FFA500', textDecoration: 'underline' },
+	{ tag: t.link, color: '#87CEFA', textDecoration: 'underline' },
+
+	// {color: ...} brackets - pink
+	{ tag: t.meta, color: '#FF69B4' },
+
 	// Comments - gray italic
 	{ tag: t.comment, color: '#808080', fontStyle: 'italic' },
 
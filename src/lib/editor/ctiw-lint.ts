@@ -0,0 +1,117 @@
+/**
+ * CTIW Lint for CodeMirror 6
+ *
+ * Underlines the problems the parser finds while a kid types, with the same
+ * messages, severities and codes the preview shows. Problems with a fix get
+ * a button for it, and Mod-. applies every fix at once.
+ */
+
+import { linter, lintGutter, type Diagnostic as EditorDiagnostic } from '@codemirror/lint';
+import type { ChangeSpec, Extension, Text } from '@codemirror/state';
+import { keymap, type Command } from '@codemirror/view';
+import type { SourcePosition } from '$lib/parser/ast';
+import { parse, fixEverything } from '$lib/parser/parser';
+import type { Diagnostic, DiagnosticFix } from '$lib/parser/diagnostics';
+
+/**
+ * Turn a line and column into an offset in the document, staying inside it
+ */
+function offsetOf(position: SourcePosition, doc: Text): number {
+	const line = doc.line(Math.min(Math.max(position.line, 1), doc.lines));
+	return Math.min(line.from + Math.max(position.column - 1, 0), line.to);
+}
+
+/**
+ * The changes a fix makes to a document
+ */
+function fixChanges(fix: DiagnosticFix, doc: Text): ChangeSpec[] {
+	return fix.edits.map((edit) => {
+		const from = offsetOf(edit.range.start, doc);
+		return { from, to: Math.max(from, offsetOf(edit.range.end, doc)), insert: edit.text };
+	});
+}
+
+/**
+ * Turn a CTIW diagnostic into a CodeMirror one. Related locations are added
+ * to the message, like "(Line 4: The =divide= box opens here)", and fixes
+ * become buttons.
+ */
+export function toEditorDiagnostic(diagnostic: Diagnostic, doc: Text): EditorDiagnostic {
+	const related = (diagnostic.related ?? []).map(
+		(location) => `\n(Line ${location.range.start.line}: ${location.message})`
+	);
+	const from = offsetOf(diagnostic.range.start, doc);
+
+	return {
+		from,
+		to: Math.max(from, offsetOf(diagnostic.range.end, doc)),
+		severity: diagnostic.severity,
+		source: diagnostic.code,
+		message: diagnostic.message + related.join(''),
+		actions: (diagnostic.fixes ?? []).map((fix) => ({
+			name: fix.title,
+			apply: (view) => {
+				// The fix was worked out for this version of the code
+				if (view.state.doc === doc) {
+					view.dispatch({ changes: fixChanges(fix, doc), userEvent: 'input.fix' });
+				}
+			}
+		}))
+	};
+}
+
+/**
+ * Apply every fix in the document at once, changing only the part that
+ * changes (so the cursor stays put)
+ */
+export const fixEverythingCommand: Command = (view) => {
+	const source = view.state.doc.toString();
+	const fixed = fixEverything(source);
+	if (fixed === source) {
+		return false;
+	}
+
+	let start = 0;
+	while (start < source.length && start < fixed.length && source[start] === fixed[start]) {
+		start++;
+	}
+	let end = 0;
+	while (
+		end < source.length - start &&
+		end < fixed.length - start &&
+		source[source.length - 1 - end] === fixed[fixed.length - 1 - end]
+	) {
+		end++;
+	}
+
+	view.dispatch({
+		changes: { from: start, to: source.length - end, insert: fixed.slice(start, fixed.length - end) },
+		userEvent: 'input.fix'
+	});
+	return true;
+};
+
+/**
+ * Create the CTIW linter extension (with the gutter markers, and Mod-. to
+ * fix everything)
+ *
+ * @example
+ * ```ts
+ * import { ctiwLint } from '$lib/editor/ctiw-lint';
+ *
+ * const extensions = [
+ *   // ... other extensions
+ *   ctiwLint()
+ * ];
+ * ```
+ */
+export function ctiwLint(): Extension {
+	return [
+		linter((view) => {
+			const doc = view.state.doc;
+			return parse(doc.toString()).errors.map((diagnostic) => toEditorDiagnostic(diagnostic, doc));
+		}),
+		lintGutter(),
+		keymap.of([{ key: 'Mod-.', run: fixEverythingCommand }])
+	];
+}
@@ -10,6 +10,8 @@
  * @module parser/ast
  */
 
+import type { CTIWDialect } from './markers';
+
 // =============================================================================
 // Source Location
 // =============================================================================
@@ -38,6 +40,23 @@ export interface SourceLocation {
 	source?: string;
 }
 
+/**
+ * Where the parts of an element's property are in the source.
+ *
+ * @example
+ * // For color=red= in: =text=Hi= color=red=
+ * {
+ *   key: { start: { line: 1, column: 11 }, end: { line: 1, column: 16 } },
+ *   value: { start: { line: 1, column: 17 }, end: { line: 1, column: 20 } }
+ * }
+ */
+export interface PropertyLocation {
+	/** The property name */
+	key: SourceLocation;
+	/** The value as written (quotes included), if there is one */
+	value?: SourceLocation;
+}
+
 // =============================================================================
 // Base Node
 // =============================================================================
@@ -51,6 +70,8 @@ export interface BaseNode {
 	type: string;
 	/** Source location for error reporting */
 	location: SourceLocation;
+	/** Line number written in front of the statement, like the 10 in "10 =text=Hi=" */
+	lineNumber?: number;
 }
 
 // =============================================================================
@@ -100,22 +121,83 @@ export type PropertyValue = string | number | boolean | null;
 
 /**
  * Common element properties that can appear on any element.
+ * Values are kept as written (unescaped); their checked, typed versions
+ * are in ElementNode.values.
  */
 export interface ElementProperties {
 	/** Element ID (from id:name syntax) */
 	id?: string;
-	/** Color value (6-character hex without #) */
+	/** Color value (a hex code without #, or a color name) */
 	color?: string;
 	/** Outline visibility */
-	outline?: VisibilityValue;
-	/** Size value */
-	size?: number;
+	outline?: string;
+	/** Size value (a number, or a number with a unit like 50%) */
+	size?: string | number;
 	/** Position/alignment */
-	in?: PositionValue;
+	in?: string;
 	/** Additional arbitrary properties */
 	[key: string]: PropertyValue | undefined;
 }
 
+/** Units a length can have (a plain number means px) */
+export type LengthUnit = 'px' | '%' | 'em' | 'rem' | 'vw' | 'vh' | 'pt';
+
+/** A color, like FF0000 or red */
+export interface ColorValue {
+	kind: 'color';
+	/** The color as CSS (#FF0000, red) */
+	css: string;
+}
+
+/** A length, like 100 (pixels) or 50% */
+export interface LengthValue {
+	kind: 'length';
+	value: number;
+	unit: LengthUnit;
+}
+
+/** A plain number, like the 0.5 in opacity=0.5= */
+export interface NumberValue {
+	kind: 'number';
+	value: number;
+}
+
+/** One of a property's fixed choices, like visible for outline */
+export interface KeywordValue {
+	kind: 'keyword';
+	value: string;
+}
+
+/** A link or file address */
+export interface UrlValue {
+	kind: 'url';
+	value: string;
+}
+
+/** A yes/no setting, like disabled=yes= */
+export interface BooleanValue {
+	kind: 'boolean';
+	value: boolean;
+}
+
+/** Any other text */
+export interface TextValue {
+	kind: 'text';
+	value: string;
+}
+
+/**
+ * A property value after it has been checked and given its type.
+ */
+export type TypedValue =
+	| ColorValue
+	| LengthValue
+	| NumberValue
+	| KeywordValue
+	| UrlValue
+	| BooleanValue
+	| TextValue;
+
 // =============================================================================
 // AST Node Types
 // =============================================================================
@@ -149,6 +231,8 @@ export interface DocumentMetadata {
 	language?: string;
 	/** Font size from =font-size=...= */
 	fontSize?: number;
+	/** Which header the document starts with (=CTIW= or ==CTIW==) */
+	dialect?: CTIWDialect;
 }
 
 /**
@@ -168,6 +252,10 @@ export interface PropertyNode extends BaseNode {
 	name: string;
 	/** Property value (string, number, or null if empty) */
 	value: PropertyValue;
+	/** Where the property name is in the source */
+	nameLocation?: SourceLocation;
+	/** Where the value is in the source (quotes included) */
+	valueLocation?: SourceLocation;
 }
 
 /**
@@ -203,12 +291,112 @@ export interface ElementNode extends BaseNode {
 	children: CTIWNode[];
 	/** Text content for elements like text, title, button */
 	content: string | null;
+	/** Each line of a multi-line text block, as written */
+	contentLines?: ContentLine[];
+	/** Inline formatting in the content (only set when the content has some) */
+	inline?: InlineNode[];
+	/** Where the element name is in the source (the ==content== shorthand has none) */
+	nameLocation?: SourceLocation;
+	/** Where the content is in the source, as written (empty for =button==) */
+	contentLocation?: SourceLocation;
+	/** Where each property's name and value are in the source */
+	propertyLocations?: Record<string, PropertyLocation>;
+	/** Typed values of the properties whose values are valid */
+	values?: Record<string, TypedValue>;
 	/** Indentation level (number of dots) */
 	indent: number;
 	/** Whether this is a closing tag (for divide) */
 	isClosing?: boolean;
 }
 
+/**
+ * One line of a multi-line text block.
+ *
+ * @example
+ * // For the second line of:
+ * // =text=
+ * // Roses are red
+ * // Violets are blue
+ * // =
+ * {
+ *   text: 'Violets are blue',
+ *   location: { start: { line: 3, column: 1 }, end: { line: 3, column: 17 } }
+ * }
+ */
+export interface ContentLine {
+	/** The line's text, without spaces around it */
+	text: string;
+	/** Where the text is in the source */
+	location: SourceLocation;
+}
+
+/**
+ * Inline formatting styles: *bold*, _italic_ and ~underline~
+ */
+export type InlineStyle = 'bold' | 'italic' | 'underline';
+
+/**
+ * Plain text inside content.
+ */
+export interface InlineTextNode {
+	type: 'InlineText';
+	/** The text, with escapes already taken off */
+	text: string;
+}
+
+/**
+ * Bold, italic or underlined text.
+ *
+ * @example
+ * // For: *big*
+ * { type: 'InlineStyle', style: 'bold', children: [{ type: 'InlineText', text: 'big' }] }
+ */
+export interface InlineStyleNode {
+	type: 'InlineStyle';
+	style: InlineStyle;
+	children: InlineNode[];
+}
+
+/**
+ * Colored text, like {red: hot} or {FF8800: orange}.
+ */
+export interface InlineColorNode {
+	type: 'InlineColor';
+	/** The color as written (a name or a hex code without #) */
+	color: string;
+	children: InlineNode[];
+}
+
+/**
+ * A link inside text, like [my site](https://example.com).
+ */
+export interface InlineLinkNode {
+	type: 'InlineLink';
+	href: string;
+	children: InlineNode[];
+}
+
+/**
+ * An emoji shortcode, like :smile:.
+ */
+export interface InlineEmojiNode {
+	type: 'InlineEmoji';
+	/** The shortcode name (smile for :smile:) */
+	name: string;
+	/** The emoji it stands for */
+	emoji: string;
+}
+
+/**
+ * Any piece of formatted content.
+ */
+export type InlineNode =
+	| InlineTextNode
+	| InlineStyleNode
+	| InlineColorNode
+	| InlineLinkNode
+	| InlineEmojiNode;
+
 /**
  * Special node - represents special elements like (time).
  *
@@ -223,6 +411,8 @@ export interface SpecialNode extends BaseNode {
 	type: 'Special';
 	/** The type of special element */
 	specialType: SpecialElementType;
+	/** Where the name (time in =(time)=) is in the source */
+	nameLocation?: SourceLocation;
 }
 
 /**
@@ -250,6 +440,13 @@ export interface ErrorNode extends BaseNode {
 	message: string;
 	/** The problematic source text */
 	sourceText: string;
+	/**
+	 * Container type a broken line was trying to open (e.g. 'divide'),
+	 * so the lines inside it can still be nested under it
+	 */
+	containerType?: CTIWElementType;
+	/** Lines nested inside a broken container */
+	children: CTIWNode[];
 }
 
 // =============================================================================
@@ -323,7 +520,16 @@ export function isErrorNode(node: CTIWNode): node is ErrorNode {
  * Check if an element type is a container (can have children).
  */
 export function isContainerElement(elementType: CTIWElementType): boolean {
-	return elementType === 'divide';
+	return getContainerDefinition(elementType) !== undefined;
+}
+
+/**
+ * Look up a container element in the CONTAINER_ELEMENTS registry.
+ */
+export function getContainerDefinition(elementType: CTIWElementType): ContainerDefinition | undefined {
+	return Object.prototype.hasOwnProperty.call(CONTAINER_ELEMENTS, elementType)
+		? CONTAINER_ELEMENTS[elementType]
+		: undefined;
 }
 
 /**
@@ -392,7 +598,7 @@ export function walkTree(node: CTIWNode, visitor: CTIWVisitor): void {
 	visit(node, visitor);
 
 	// Visit children if this node has them
-	if (isDocumentNode(node) || isElementNode(node)) {
+	if (isDocumentNode(node) || isElementNode(node) || isErrorNode(node)) {
 		for (const child of node.children) {
 			walkTree(child, visitor);
 		}
@@ -520,12 +726,15 @@ export function createComment(
 export function createError(
 	message: string,
 	sourceText: string,
-	location: SourceLocation = createDefaultLocation()
+	location: SourceLocation = createDefaultLocation(),
+	containerType?: CTIWElementType
 ): ErrorNode {
 	return {
 		type: 'Error',
 		message,
 		sourceText,
+		containerType,
+		children: [],
 		location
 	};
 }
@@ -549,6 +758,45 @@ export const CORE_ELEMENT_TYPES: readonly CTIWCoreElementType[] = [
 	'link'
 ] as const;
 
+/**
+ * Describes a container element in the CONTAINER_ELEMENTS registry.
+ */
+export interface ContainerDefinition {
+	/** HTML tag the container compiles to */
+	tag: string;
+	/** Kid-friendly description (shown by autocomplete) */
+	description: string;
+}
+
+/**
+ * Container elements, shared by the parser, code generator and autocomplete.
+ *
+ * A container opens with =name= and closes with a bare =name=; the indented
+ * lines between the two become its children.
+ *
+ * @example
+ * =ul=
+ * .... =li=First item=
+ * =ul=
+ */
+export const CONTAINER_ELEMENTS: Readonly<Record<string, ContainerDefinition>> = {
+	divide: { tag: 'div', description: 'Groups other elements together, like a box' },
+	section: { tag: 'section', description: 'A part of your page about one topic' },
+	header: { tag: 'header', description: 'The top part of your page' },
+	footer: { tag: 'footer', description: 'The bottom part of your page' },
+	nav: { tag: 'nav', description: 'Holds links for getting around your site' },
+	main: { tag: 'main', description: 'The main part of your page' },
+	article: { tag: 'article', description: 'A story or post that stands on its own' },
+	aside: { tag: 'aside', description: 'Extra stuff off to the side' },
+	ul: { tag: 'ul', description: 'A list with bullet points' },
+	ol: { tag: 'ol', description: 'A list with numbers' },
+	form: { tag: 'form', description: 'Holds inputs and buttons that go together' },
+	table: { tag: 'table', description: 'A grid of rows and columns' },
+	thead: { tag: 'thead', description: 'The heading rows of a table' },
+	tbody: { tag: 'tbody', description: 'The main rows of a table' },
+	tr: { tag: 'tr', description: 'One row of a table' }
+};
+
 /**
  * All valid element type names (for backward compatibility).
  * Note: CTIW now supports ANY valid HTML element name.
@@ -620,6 +868,19 @@ export function hasErrors(node: CTIWNode): boolean {
 	return collectErrors(node).length > 0;
 }
 
+/**
+ * Check if a position is inside a location (the end is exclusive).
+ * Useful for finding what's under the cursor.
+ */
+export function locationContains(location: SourceLocation, position: SourcePosition): boolean {
+	const { start, end } = location;
+	const afterStart =
+		position.line > start.line || (position.line === start.line && position.column >= start.column);
+	const beforeEnd =
+		position.line < end.line || (position.line === end.line && position.column < end.column);
+	return afterStart && beforeEnd;
+}
+
 /**
  * Pretty-print an AST node for debugging.
  */
@@ -665,7 +926,12 @@ export function astToString(node: CTIWNode, indent = 0): string {
 			return `${pad}Comment { text: "${node.text}" }`;
 
 		case 'Error':
-			return `${pad}Error { message: "${node.message}", source: "${node.sourceText}" }`;
+			return (
+				`${pad}Error { message: "${node.message}", source: "${node.sourceText}" }` +
+				(node.children.length > 0
+					? ` [\n` + node.children.map((c) => astToString(c, indent + 1)).join('\n') + `\n${pad}]`
+					: '')
+			);
 
 		default:
 			return `${pad}Unknown`;
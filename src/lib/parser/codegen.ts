@@ -4,90 +4,93 @@
  * Converts a CTIW AST into HTML and CSS.
  * This is the final step in the compilation pipeline:
  * CTIW Source -> Lexer -> Parser -> AST -> Code Generator -> HTML/CSS
+ *
+ * Element styles are worked out in styles.ts, and it can also link what it
+ * writes back to the CTIW lines (see sourcemap.ts).
  */
 
 import type {
 	DocumentNode,
 	ElementNode,
 	SpecialNode,
+	ErrorNode,
+	CommentNode,
 	CTIWNode,
-	ElementProperties,
-	CTIWElementType
+	CTIWElementType,
+	InlineNode,
+	SourceLocation
+} from './ast';
+import {
+	isElementNode,
+	isSpecialNode,
+	isErrorNode,
+	isCommentNode,
+	isCoreElementType,
+	getContainerDefinition,
+	hasErrors
 } from './ast';
-import { isElementNode, isSpecialNode, isCoreElementType } from './ast';
+import { parseValue, formatCSSValue, isSafeUrl, elementValue } from './values';
+import { propertyRole } from './schema';
+import { emitStyles, formatDeclarations, formatRule, type StyleStrategy } from './styles';
+import { assignIds, sanitizeId } from './ids';
+import {
+	SOURCE_LINE_ATTRIBUTE,
+	SOURCE_COLUMN_ATTRIBUTE,
+	createSourceMap,
+	findSourceAttributes,
+	positionAt,
+	type SourceMapOptions,
+	type SourceMapV3
+} from './sourcemap';
+
+/** Options for code generation */
+export interface CodegenOptions {
+	/** Emit CTIW comments as HTML comments (left out by default) */
+	comments?: boolean;
+	/** Mark each tag with the CTIW line and column it came from (data-ctiw-line and data-ctiw-column) */
+	sourceMap?: boolean;
+	/** Where element styles go (see styles.ts): #id rules, and shared classes without an id, by default */
+	styles?: StyleStrategy;
+	/** Give every element without an id one, like title-1 (see ids.ts) */
+	autoIds?: boolean;
+	/** The id each element is written with (worked out with assignIds() when left out) */
+	ids?: ReadonlyMap<ElementNode, string>;
+}
 
-/**
- * Known CSS properties that CTIW properties map to.
- * Properties not in this map are passed through as-is.
- */
-const CSS_PROPERTY_MAP: Record<string, string> = {
-	// CTIW-specific mappings
-	'color': 'background-color',
-	'in': 'text-align',
-	'size': 'width',
-	// Direct CSS properties (pass through)
-	'background': 'background',
-	'background-color': 'background-color',
-	'border': 'border',
-	'border-radius': 'border-radius',
-	'font-size': 'font-size',
-	'font-family': 'font-family',
-	'font-weight': 'font-weight',
-	'text-align': 'text-align',
-	'width': 'width',
-	'height': 'height',
-	'margin': 'margin',
-	'margin-top': 'margin-top',
-	'margin-bottom': 'margin-bottom',
-	'margin-left': 'margin-left',
-	'margin-right': 'margin-right',
-	'padding': 'padding',
-	'padding-top': 'padding-top',
-	'padding-bottom': 'padding-bottom',
-	'padding-left': 'padding-left',
-	'padding-right': 'padding-right',
-	'display': 'display',
-	'flex': 'flex',
-	'flex-direction': 'flex-direction',
-	'justify-content': 'justify-content',
-	'align-items': 'align-items',
-	'gap': 'gap',
-	'grid': 'grid',
-	'position': 'position',
-	'top': 'top',
-	'left': 'left',
-	'right': 'right',
-	'bottom': 'bottom',
-	'z-index': 'z-index',
-	'opacity': 'opacity',
-	'transform': 'transform',
-	'transition': 'transition',
-	'cursor': 'cursor',
-	'overflow': 'overflow',
-	'box-shadow': 'box-shadow',
-	'text-decoration': 'text-decoration',
-	'line-height': 'line-height',
-	'letter-spacing': 'letter-spacing',
-	'max-width': 'max-width',
-	'min-width': 'min-width',
-	'max-height': 'max-height',
-	'min-height': 'min-height'
-};
+/** The parts of a page, before they're put together into one document */
+export interface PageParts {
+	/** The language for <html lang="...">, or '' */
+	language: string;
+	/** What goes in <head> besides the styles (the charset and the title) */
+	head: string;
+	/** The page's CSS: the body styles, then a rule per styled element */
+	css: string;
+	/** The page's JavaScript ('' when it doesn't need any) */
+	js: string;
+	/** What goes in <body>, without the script */
+	bodyFragment: string;
+}
 
-/**
- * Properties that are HTML attributes (not CSS)
- */
-const HTML_ATTRIBUTES = new Set([
-	'id', 'class', 'href', 'src', 'alt', 'title', 'type', 'name', 'value',
-	'placeholder', 'disabled', 'readonly', 'checked', 'selected',
-	'target', 'rel', 'download', 'data', 'role', 'aria-label',
-	'width', 'height', // For img, video, etc.
-	'autoplay', 'controls', 'loop', 'muted', 'poster', // Media elements
-	'action', 'method', 'enctype', // Form elements
-	'colspan', 'rowspan', 'scope', // Table elements
-	'min', 'max', 'step', 'pattern', 'required', 'maxlength', 'minlength', // Input attributes
-	'for', 'tabindex', 'autofocus', 'autocomplete'
-]);
+/** A file the page loads, like a picture */
+export interface PageAsset {
+	url: string;
+	/** The element that loads it */
+	elementType: CTIWElementType;
+	/** Where that element is in the CTIW code */
+	location: SourceLocation;
+}
+
+/** A page with a source map back to its CTIW code */
+export interface MappedHTML {
+	html: string;
+	map: SourceMapV3;
+}
+
+/** A CSS rule, with where its element is in the CTIW code */
+interface CSSRule {
+	text: string;
+	location: SourceLocation;
+}
 
 /**
  * Self-closing HTML elements (void elements)
@@ -99,11 +102,11 @@ const SELF_CLOSING_ELEMENTS = new Set([
 
 /**
  * CTIW element type to HTML tag mapping
+ * (container tags like divide -> div come from CONTAINER_ELEMENTS)
  */
 const ELEMENT_TAG_MAP: Record<string, string> = {
 	'title': 'h1',
 	'text': 'p',
-	'divide': 'div',
 	'line': 'br',
 	'heading': 'h2',
 	'subheading': 'h3'
@@ -123,6 +126,13 @@ const LANGUAGE_MAP: Record<string, string> = {
 	russian: 'ru'
 };
 
+/**
+ * Styles for the placeholder shown in place of a line that couldn't be understood
+ */
+const ERROR_CSS =
+	'.ctiw-error { color: #b91c1c; background: #fee2e2; border: 2px dashed #f87171; ' +
+	'border-radius: 6px; padding: 4px 8px; font-family: monospace; }';
+
 /**
  * Escapes HTML special characters to prevent XSS
  */
@@ -136,110 +146,116 @@ function escapeHTML(text: string): string {
 }
 
 /**
- * Check if a value looks like a hex color (6 characters, all hex digits)
+ * Escapes text for HTML, keeping its line breaks as <br>
  */
-function isHexColor(value: string): boolean {
-	return /^[0-9A-Fa-f]{6}$/.test(value);
+function textToHTML(text: string): string {
+	return escapeHTML(text).replace(/\n/g, '<br>\n');
 }
 
 /**
- * Format a CSS value, adding units or # prefix as needed
+ * Format the color of {color: text} for CSS, the same way as color properties.
+ * Returns null if it isn't a real color.
  */
-function formatCSSValue(propName: string, value: string | number): string {
-	const strValue = String(value);
-
-	// Properties that expect colors
-	if (propName.includes('color') || propName === 'background') {
-		if (isHexColor(strValue)) {
-			return `#${strValue}`;
-		}
-	}
-
-	// Properties that expect pixel values
-	const pixelProps = ['font-size', 'width', 'height', 'margin', 'padding', 'gap',
-		'top', 'left', 'right', 'bottom', 'border-radius', 'size',
-		'margin-top', 'margin-bottom', 'margin-left', 'margin-right',
-		'padding-top', 'padding-bottom', 'padding-left', 'padding-right',
-		'max-width', 'min-width', 'max-height', 'min-height'];
-	if (pixelProps.includes(propName) && /^\d+$/.test(strValue)) {
-		return `${strValue}px`;
-	}
-
-	return strValue;
+function formatInlineColor(color: string): string | null {
+	const result = parseValue('color', color);
+	return result.ok ? formatCSSValue(result.value) : null;
 }
 
 /**
- * Generates CSS styles for a single element
+ * Generates HTML for inline formatted content
  */
-function generateElementCSS(element: ElementNode): string {
-	const props = element.properties;
-	const id = props.id;
-	if (!id) return '';
-
-	const styles: string[] = [];
-
-	// Process each property
-	for (const [key, value] of Object.entries(props)) {
-		if (value === undefined || value === null) continue;
-		if (HTML_ATTRIBUTES.has(key)) continue; // Skip HTML attributes
-
-		// Special CTIW property handling
-		if (key === 'color' && isHexColor(String(value))) {
-			styles.push(`background-color: #${value}`);
-			continue;
-		}
-
-		if (key === 'outline') {
-			if (value === 'visible') {
-				styles.push('border: 1px solid black');
-			} else if (value === 'invisible') {
-				styles.push('border: none');
+function generateInline(nodes: InlineNode[]): string {
+	return nodes
+		.map((node) => {
+			switch (node.type) {
+				case 'InlineText':
+					return textToHTML(node.text);
+				case 'InlineEmoji':
+					return node.emoji;
+				case 'InlineStyle': {
+					const tag = node.style === 'bold' ? 'strong' : node.style === 'italic' ? 'em' : 'u';
+					return `<${tag}>${generateInline(node.children)}</${tag}>`;
+				}
+				case 'InlineColor': {
+					const color = formatInlineColor(node.color);
+					const style = color ? ` style="color: ${color}"` : '';
+					return `<span${style}>${generateInline(node.children)}</span>`;
+				}
+				case 'InlineLink':
+					// An unsafe link is just its text
+					if (!isSafeUrl(node.href)) {
+						return generateInline(node.children);
+					}
+					return `<a href="${escapeHTML(node.href)}">${generateInline(node.children)}</a>`;
 			}
-			continue;
-		}
-
-		if (key === 'in') {
-			if (value === 'middle' || value === 'center') {
-				styles.push('text-align: center');
-			} else if (value === 'left') {
-				styles.push('text-align: left');
-			} else if (value === 'right') {
-				styles.push('text-align: right');
-			}
-			continue;
-		}
+		})
+		.join('');
+}
 
-		// Map CTIW property to CSS property or pass through
-		const cssProperty = CSS_PROPERTY_MAP[key] || key;
+/**
+ * Get the text of an attribute with a valid value ('' if it has none)
+ */
+function attributeText(element: ElementNode, key: string): string {
+	const typed = elementValue(element, key);
+	return typed ? formatCSSValue(typed) : '';
+}
 
-		// Only output if it looks like a valid CSS property (contains lowercase letters and hyphens)
-		if (/^[a-z][a-z0-9-]*$/i.test(cssProperty)) {
-			const formattedValue = formatCSSValue(key, value);
-			styles.push(`${cssProperty}: ${formattedValue}`);
-		}
+/**
+ * The attributes saying where a node is in the CTIW code, when they're asked
+ * for (generated nodes with no location don't get any)
+ */
+function sourceAttributes(node: CTIWNode, options: CodegenOptions): string {
+	const { line, column } = node.location.start;
+	if (!options.sourceMap || line < 1) {
+		return '';
 	}
+	return ` ${SOURCE_LINE_ATTRIBUTE}="${line}" ${SOURCE_COLUMN_ATTRIBUTE}="${column}"`;
+}
 
-	if (styles.length === 0) return '';
+/**
+ * The id an element is written with: the one worked out for the page, or
+ * for an element on its own, its own id made valid
+ */
+function elementId(element: ElementNode, options: CodegenOptions): string | null {
+	if (options.ids) {
+		return options.ids.get(element) ?? null;
+	}
+	return element.properties.id ? sanitizeId(element.properties.id) : null;
+}
 
-	return `#${id} { ${styles.join('; ')}; }`;
+/**
+ * Generates the CSS rule for a single element ('' when its styles don't go
+ * in the style block)
+ */
+function generateElementCSS(element: ElementNode, options: CodegenOptions): string {
+	const { rule } = emitStyles(element, options.styles, elementId(element, options));
+	return rule ? formatRule(rule) : '';
 }
 
 /**
- * Generates CSS for multiple nodes (including nested children)
+ * Collects the CSS rules for multiple nodes (including nested children),
+ * once each when elements share one
  */
-export function generateCSS(nodes: CTIWNode[]): string {
-	const cssRules: string[] = [];
+function collectCSSRules(nodes: CTIWNode[], options: CodegenOptions = {}): CSSRule[] {
+	const cssRules: CSSRule[] = [];
+	const written = new Set<string>();
 
 	function processNode(node: CTIWNode) {
 		if (isElementNode(node)) {
-			const css = generateElementCSS(node);
-			if (css) {
-				cssRules.push(css);
+			const css = generateElementCSS(node, options);
+			if (css && !written.has(css)) {
+				written.add(css);
+				cssRules.push({ text: css, location: node.location });
 			}
 			// Process children recursively
 			for (const child of node.children) {
 				processNode(child);
 			}
+		} else if (isErrorNode(node)) {
+			// Lines inside a broken container still get their styles
+			for (const child of node.children) {
+				processNode(child);
+			}
 		}
 	}
 
@@ -247,94 +263,162 @@ export function generateCSS(nodes: CTIWNode[]): string {
 		processNode(node);
 	}
 
-	return cssRules.join('\n    ');
+	return cssRules;
 }
 
 /**
- * Generates HTML attributes string from element properties
+ * Generates CSS for multiple nodes (including nested children)
  */
-function generateAttributes(props: ElementProperties): string {
-	const attrs: string[] = [];
-
-	for (const [key, value] of Object.entries(props)) {
-		if (value === undefined || value === null) continue;
-
-		// Only include known HTML attributes
-		if (HTML_ATTRIBUTES.has(key)) {
-			attrs.push(`${key}="${escapeHTML(String(value))}"`);
-		}
-	}
-
-	return attrs.length > 0 ? ' ' + attrs.join(' ') : '';
+export function generateCSS(nodes: CTIWNode[], options: CodegenOptions = {}): string {
+	return collectCSSRules(nodes, options)
+		.map((rule) => rule.text)
+		.join('\n    ');
 }
 
 /**
- * Generate inline styles for elements without IDs
+ * Generates HTML attributes string from element properties (leaving out the
+ * ones the element's tag is already written with), and the class and style
+ * attributes for its styles
  */
-function generateInlineStyles(props: ElementProperties): string {
-	const styles: string[] = [];
+function generateAttributes(
+	element: ElementNode,
+	options: CodegenOptions,
+	written: readonly string[] = []
+): string {
+	const attrs: string[] = [];
+	const id = elementId(element, options);
+	const { className, inline } = emitStyles(element, options.styles, id);
+	let classWritten = false;
+
+	// An id the element didn't have comes first
+	if (id && !element.properties.id) {
+		attrs.push(`id="${id}"`);
+	}
 
-	for (const [key, value] of Object.entries(props)) {
-		if (value === undefined || value === null) continue;
-		if (HTML_ATTRIBUTES.has(key)) continue; // Skip HTML attributes
+	for (const [key, value] of Object.entries(element.properties)) {
+		if (value === undefined || value === null || written.includes(key)) continue;
 
-		// Special CTIW property handling
-		if (key === 'color' && isHexColor(String(value))) {
-			styles.push(`background-color: #${value}`);
+		// The id is written the way the page uses it (valid, and not used twice)
+		if (key === 'id') {
+			if (id) {
+				attrs.push(`id="${id}"`);
+			}
 			continue;
 		}
 
-		if (key === 'outline') {
-			if (value === 'visible') {
-				styles.push('border: 1px solid black');
-			} else if (value === 'invisible') {
-				styles.push('border: none');
-			}
+		// A generated class goes with the element's own classes
+		if (key === 'class' && className) {
+			attrs.push(`class="${escapeHTML(`${value} ${className}`)}"`);
+			classWritten = true;
 			continue;
 		}
 
-		if (key === 'in') {
-			if (value === 'middle' || value === 'center') {
-				styles.push('text-align: center');
-			} else if (value === 'left') {
-				styles.push('text-align: left');
-			} else if (value === 'right') {
-				styles.push('text-align: right');
+		// Only include the element's HTML attributes, with valid values
+		const typed = propertyRole(element.elementType, key) === 'attribute' && elementValue(element, key);
+		if (!typed) continue;
+
+		// Yes/no settings are there or not: disabled=yes= becomes disabled
+		if (typed.kind === 'boolean') {
+			if (typed.value) {
+				attrs.push(key);
 			}
 			continue;
 		}
 
-		// Map CTIW property to CSS property or pass through
-		const cssProperty = CSS_PROPERTY_MAP[key] || key;
+		attrs.push(`${key}="${escapeHTML(String(value))}"`);
+	}
 
-		// Only output if it looks like a valid CSS property
-		if (/^[a-z][a-z0-9-]*$/i.test(cssProperty)) {
-			const formattedValue = formatCSSValue(key, value);
-			styles.push(`${cssProperty}: ${formattedValue}`);
-		}
+	if (className && !classWritten) {
+		attrs.push(`class="${className}"`);
+	}
+	// Quoted values can hold any character, so the attribute is escaped
+	if (inline) {
+		attrs.push(`style="${escapeHTML(formatDeclarations(inline))}"`);
 	}
 
-	return styles.length > 0 ? ` style="${styles.join('; ')}"` : '';
+	return attrs.length > 0 ? ' ' + attrs.join(' ') : '';
 }
 
 /**
  * Generates HTML for a special element
  */
-function generateSpecialElement(node: SpecialNode): string {
+function generateSpecialElement(node: SpecialNode, options: CodegenOptions): string {
 	switch (node.specialType) {
 		case 'time':
-			return '<span class="ctiw-time"></span>';
+			return `<span${sourceAttributes(node, options)} class="ctiw-time"></span>`;
 		default:
 			return `<!-- Unknown special: ${node.specialType} -->`;
 	}
 }
 
+/**
+ * Generates an HTML comment for a CTIW comment
+ */
+function generateComment(node: CommentNode): string {
+	// "--" can't appear inside an HTML comment
+	return `<!-- ${node.text.replace(/-(?=-)/g, '- ')} -->`;
+}
+
+/**
+ * Checks if a node produces HTML (elements, specials, error placeholders,
+ * and comments when they're turned on)
+ */
+function isRenderedNode(node: CTIWNode, options: CodegenOptions = {}): boolean {
+	return (
+		isElementNode(node) ||
+		isSpecialNode(node) ||
+		isErrorNode(node) ||
+		(options.comments === true && isCommentNode(node))
+	);
+}
+
+/**
+ * Generates HTML for the children of an element, one per line
+ */
+function generateChildren(children: CTIWNode[], indent: string, options: CodegenOptions): string {
+	return children
+		.filter((child) => isRenderedNode(child, options))
+		.map((child) => generateElement(child, indent + '  ', options))
+		.join('\n' + indent + '  ');
+}
+
+/**
+ * Generates a visible placeholder for a line that couldn't be understood.
+ * A broken container still shows what's inside it.
+ */
+function generateErrorElement(node: ErrorNode, indent: string, options: CodegenOptions): string {
+	const source = sourceAttributes(node, options);
+	const placeholder =
+		`<div${source} class="ctiw-error" title="${escapeHTML(node.message)}">` +
+		`⚠️ ${escapeHTML(node.sourceText)}</div>`;
+
+	const childrenHTML = generateChildren(node.children, indent, options);
+	if (!childrenHTML) {
+		return placeholder;
+	}
+
+	const tag = (node.containerType && getContainerDefinition(node.containerType)?.tag) || 'div';
+	return `<${tag}${source}>\n${indent}  ${placeholder}\n${indent}  ${childrenHTML}\n${indent}</${tag}>`;
+}
+
 /**
  * Generates HTML for a single element
  */
-export function generateElement(node: CTIWNode, indent: string = ''): string {
+export function generateElement(
+	node: CTIWNode,
+	indent: string = '',
+	options: CodegenOptions = {}
+): string {
 	if (isSpecialNode(node)) {
-		return generateSpecialElement(node);
+		return generateSpecialElement(node, options);
+	}
+
+	if (isErrorNode(node)) {
+		return generateErrorElement(node, indent, options);
+	}
+
+	if (isCommentNode(node)) {
+		return options.comments ? generateComment(node) : '';
 	}
 
 	if (!isElementNode(node)) {
@@ -342,61 +426,59 @@ export function generateElement(node: CTIWNode, indent: string = ''): string {
 	}
 
 	const element = node;
-	const attrs = generateAttributes(element.properties);
-	const inlineStyles = !element.properties.id ? generateInlineStyles(element.properties) : '';
-	const content = element.content ? escapeHTML(element.content) : '';
+	const source = sourceAttributes(element, options);
+	const content = element.inline
+		? generateInline(element.inline)
+		: element.content
+			? textToHTML(element.content)
+			: '';
 	const elementType = element.elementType;
 
 	// Special CTIW-specific element handling
 	switch (elementType) {
-		case 'password': {
-			const placeholder = content ? ` placeholder="${content}"` : '';
-			const idAttr = element.properties.id ? ` id="${element.properties.id}"` : '';
-			return `<input type="password"${idAttr}${placeholder}${inlineStyles}>`;
-		}
-
+		case 'password':
 		case 'input': {
+			// The content is the placeholder, if there is any
+			const type = elementType === 'password' ? 'password' : attributeText(element, 'type') || 'text';
 			const placeholder = content ? ` placeholder="${content}"` : '';
-			const idAttr = element.properties.id ? ` id="${element.properties.id}"` : '';
-			return `<input type="text"${idAttr}${placeholder}${inlineStyles}>`;
+			const attrs = generateAttributes(element, options, content ? ['type', 'placeholder'] : ['type']);
+			return `<input${source} type="${escapeHTML(type)}"${attrs}${placeholder}>`;
 		}
 
 		case 'img': {
-			const src = content || element.properties.src || '';
-			const alt = element.properties.alt || '';
-			const idAttr = element.properties.id ? ` id="${element.properties.id}"` : '';
-			return `<img src="${escapeHTML(src)}" alt="${escapeHTML(alt)}"${idAttr}${inlineStyles}>`;
+			const src = content || attributeText(element, 'src');
+			const alt = attributeText(element, 'alt');
+			const attrs = generateAttributes(element, options, ['src', 'alt']);
+			return `<img${source} src="${escapeHTML(src)}" alt="${escapeHTML(alt)}"${attrs}>`;
 		}
 
 		case 'link': {
-			const href = element.properties.href || '#';
-			const idAttr = element.properties.id ? ` id="${element.properties.id}"` : '';
-			return `<a href="${escapeHTML(href)}"${idAttr}${inlineStyles}>${content}</a>`;
+			const href = attributeText(element, 'href') || '#';
+			const attrs = generateAttributes(element, options, ['href']);
+			return `<a${source} href="${escapeHTML(href)}"${attrs}>${content}</a>`;
 		}
 	}
 
+	const attrs = generateAttributes(element, options);
+
 	// Map CTIW element type to HTML tag, or use the type directly as a tag
-	const tag = ELEMENT_TAG_MAP[elementType] || elementType;
+	const tag =
+		ELEMENT_TAG_MAP[elementType] || getContainerDefinition(elementType)?.tag || elementType;
 
 	// Handle self-closing elements
 	if (SELF_CLOSING_ELEMENTS.has(tag)) {
-		return `<${tag}${attrs}${inlineStyles}>`;
+		return `<${tag}${source}${attrs}>`;
 	}
 
 	// Handle elements with children (containers)
-	const validChildren = element.children.filter(
-		(child) => isElementNode(child) || isSpecialNode(child)
-	);
+	const childrenHTML = generateChildren(element.children, indent, options);
 
-	if (validChildren.length > 0) {
-		const childrenHTML = validChildren
-			.map((child) => generateElement(child, indent + '  '))
-			.join('\n' + indent + '  ');
-		return `<${tag}${attrs}${inlineStyles}>\n${indent}  ${childrenHTML}\n${indent}</${tag}>`;
+	if (childrenHTML) {
+		return `<${tag}${source}${attrs}>\n${indent}  ${childrenHTML}\n${indent}</${tag}>`;
 	}
 
 	// Simple element with content
-	return `<${tag}${attrs}${inlineStyles}>${content}</${tag}>`;
+	return `<${tag}${source}${attrs}>${content}</${tag}>`;
 }
 
 /**
@@ -405,66 +487,157 @@ export function generateElement(node: CTIWNode, indent: string = ''): string {
 function hasTimeElement(nodes: CTIWNode[]): boolean {
 	for (const node of nodes) {
 		if (isSpecialNode(node) && node.specialType === 'time') return true;
-		if (isElementNode(node) && hasTimeElement(node.children)) return true;
+		if ((isElementNode(node) || isErrorNode(node)) && hasTimeElement(node.children)) return true;
 	}
 	return false;
 }
 
+/** The script that keeps =(time)= elements showing the current time */
+const TIME_SCRIPT = `function updateTime() {
+  const timeElements = document.querySelectorAll('.ctiw-time');
+  const now = new Date().toLocaleTimeString();
+  timeElements.forEach(el => el.textContent = now);
+}
+updateTime();
+setInterval(updateTime, 1000);`;
+
+/** Properties holding a file the page loads */
+const ASSET_PROPERTIES = ['src', 'poster'];
+
 /**
- * Generates the time update script
+ * Puts spaces in front of every line of some text
  */
-function generateTimeScript(): string {
-	return `
-  <script>
-    function updateTime() {
-      const timeElements = document.querySelectorAll('.ctiw-time');
-      const now = new Date().toLocaleTimeString();
-      timeElements.forEach(el => el.textContent = now);
-    }
-    updateTime();
-    setInterval(updateTime, 1000);
-  </script>`;
+function indentLines(text: string, indent: string): string {
+	return text
+		.split('\n')
+		.map((line) => indent + line)
+		.join('\n');
 }
 
 /**
- * Main function: Generates complete HTML document from CTIW AST
+ * Generates the parts of a page from a CTIW AST, to use on their own or
+ * put together with assembleHTML()
  */
-export function generateHTML(doc: DocumentNode): string {
+export function generateParts(doc: DocumentNode, pageOptions: CodegenOptions = {}): PageParts {
+	// The ids are worked out for the whole page, so no two elements share one
+	const options = { ...pageOptions, ids: pageOptions.ids ?? assignIds(doc, pageOptions.autoIds) };
+
 	// Extract document-level metadata
 	const meta = doc.metadata || {};
 	const pageTitle = meta.title || 'CTIW Page';
 	const language = meta.language ? LANGUAGE_MAP[meta.language.toLowerCase()] || meta.language : '';
 	const fontSize = meta.fontSize ? `font-size: ${meta.fontSize}px;` : '';
 
-	// Filter children to only Elements and Specials for body content
-	const bodyNodes = doc.children.filter((child) => isElementNode(child) || isSpecialNode(child));
-
-	// Generate CSS from elements
-	const elementCSS = generateCSS(bodyNodes);
-
-	// Generate body content
-	const bodyContent = bodyNodes.map((node) => '  ' + generateElement(node, '  ')).join('\n');
-
-	// Check if we need the time script
-	const needsTimeScript = hasTimeElement(bodyNodes);
+	// Filter children to the nodes that produce HTML (Elements, Specials, Errors, and Comments if asked for)
+	const bodyNodes = doc.children.filter((child) => isRenderedNode(child, options));
+
+	// The body styles, a rule per styled element, and the error placeholder styles if needed
+	const css = [
+		`body { font-family: sans-serif; padding: 20px;${fontSize ? ' ' + fontSize : ''} }`,
+		...collectCSSRules(bodyNodes, options).map((rule) => rule.text),
+		...(hasErrors(doc) ? [ERROR_CSS] : [])
+	];
+
+	return {
+		language,
+		head: `<meta charset="utf-8">\n<title>${escapeHTML(pageTitle)}</title>`,
+		css: css.join('\n'),
+		js: hasTimeElement(bodyNodes) ? TIME_SCRIPT : '',
+		bodyFragment: bodyNodes.map((node) => '  ' + generateElement(node, '  ', options)).join('\n')
+	};
+}
 
-	// Build the HTML document
-	const langAttr = language ? ` lang="${language}"` : '';
+/**
+ * Puts the parts of a page together into a complete HTML document
+ */
+export function assembleHTML(parts: PageParts): string {
+	const langAttr = parts.language ? ` lang="${parts.language}"` : '';
+	const script = parts.js ? `\n  <script>\n${indentLines(parts.js, '    ')}\n  </script>` : '';
 
-	const html = `<!DOCTYPE html>
+	return `<!DOCTYPE html>
 <html${langAttr}>
 <head>
-  <meta charset="utf-8">
-  <title>${escapeHTML(pageTitle)}</title>
+${indentLines(parts.head, '  ')}
   <style>
-    body { font-family: sans-serif; padding: 20px;${fontSize ? ' ' + fontSize : ''} }
-    ${elementCSS}
+${indentLines(parts.css, '    ')}
   </style>
 </head>
 <body>
-${bodyContent}${needsTimeScript ? generateTimeScript() : ''}
+${parts.bodyFragment}${script}
 </body>
 </html>`;
+}
+
+/**
+ * Main function: Generates complete HTML document from CTIW AST
+ */
+export function generateHTML(doc: DocumentNode, options: CodegenOptions = {}): string {
+	return assembleHTML(generateParts(doc, options));
+}
+
+/**
+ * Finds the files a page loads (pictures, videos, ...), in the order they
+ * come, with where each one is used in the CTIW code
+ */
+export function collectAssets(doc: DocumentNode): PageAsset[] {
+	const assets: PageAsset[] = [];
+
+	function processNode(node: CTIWNode) {
+		if (isElementNode(node)) {
+			// A picture's file can be its content: =img=cat.png=
+			const content = node.elementType === 'img' && node.content;
+			if (content && isSafeUrl(content)) {
+				assets.push({ url: content, elementType: node.elementType, location: node.location });
+			}
+
+			for (const key of ASSET_PROPERTIES) {
+				const typed = propertyRole(node.elementType, key) === 'attribute' && elementValue(node, key);
+				if (typed && typed.kind === 'url') {
+					assets.push({ url: typed.value, elementType: node.elementType, location: node.location });
+				}
+			}
+		}
+		if (isElementNode(node) || isErrorNode(node)) {
+			for (const child of node.children) {
+				processNode(child);
+			}
+		}
+	}
+
+	for (const node of doc.children) {
+		processNode(node);
+	}
+
+	return assets;
+}
+
+/**
+ * Generates a complete HTML document with a source map back to the CTIW
+ * code: each tag and each CSS rule maps to the line and column of its
+ * element. The tags also get the data-ctiw-line and data-ctiw-column
+ * attributes the mappings are found from.
+ *
+ * @example
+ * const { html, map } = generateHTMLWithSourceMap(parse(source).document, { sourceContent: source });
+ */
+export function generateHTMLWithSourceMap(
+	doc: DocumentNode,
+	options: CodegenOptions & SourceMapOptions = {}
+): MappedHTML {
+	const ids = options.ids ?? assignIds(doc, options.autoIds);
+	const html = generateHTML(doc, { ...options, ids, sourceMap: true });
+	const mappings = findSourceAttributes(html);
+
+	// The rules are written in order, so each one is found after the one before it
+	const bodyNodes = doc.children.filter((child) => isRenderedNode(child, options));
+	let searchFrom = html.indexOf('<style>');
+	for (const rule of collectCSSRules(bodyNodes, { ...options, ids })) {
+		const offset = html.indexOf(rule.text, searchFrom);
+		if (offset === -1 || rule.location.start.line < 1) continue;
+
+		mappings.push({ generated: positionAt(html, offset), original: rule.location.start });
+		searchFrom = offset + rule.text.length;
+	}
 
-	return html;
+	return { html, map: createSourceMap(mappings, options) };
 }
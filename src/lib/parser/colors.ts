@@ -0,0 +1,208 @@
+/**
+ * CTIW Colors
+ *
+ * Everything a color property (color=, background-color=, {red: words})
+ * can be:
+ * - A CSS color name: red, skyblue, rebeccapurple, ... (see CSS_COLORS)
+ * - A kid-friendly name: sky, grass, bubblegum, ... (see KID_COLORS)
+ * - A hex code with 3, 6 or 8 digits, with or without #: F00, FF0000, FF000080
+ * - rgb() or hsl(): rgb(255,0,0) or "hsl(0 100% 50%)" (quoted, with spaces)
+ *
+ * Colors that aren't real get a message saying what's wrong, with the
+ * nearest color name when it looks like a typo. The editor's color
+ * completions come from the same tables.
+ *
+ * @module parser/colors
+ */
+
+import { findClosest } from './suggest';
+
+/** A checked color as CSS, or a friendly message saying what's wrong with it */
+export type ColorResult = { ok: true; css: string } | { ok: false; message: string; suggestion?: string };
+
+/** A kid-friendly color name */
+export interface KidColor {
+	/** The hex code it stands for */
+	hex: string;
+	/** An emoji that looks like it */
+	emoji: string;
+	/** What it looks like, for the editor */
+	description: string;
+}
+
+/** Kid-friendly color names (none of them are CSS names too) */
+export const KID_COLORS: Readonly<Record<string, KidColor>> = {
+	sky: { hex: '#87CEEB', emoji: '🌤️', description: 'Light blue, like a sunny sky' },
+	ocean: { hex: '#1E90FF', emoji: '🌊', description: 'Deep blue, like the sea' },
+	ice: { hex: '#D6F1FF', emoji: '🧊', description: 'Icy pale blue' },
+	night: { hex: '#0B1D3A', emoji: '🌙', description: 'Very dark blue, like the night sky' },
+	grass: { hex: '#4CAF50', emoji: '🌱', description: 'Fresh green, like grass' },
+	leaf: { hex: '#3CB371', emoji: '🍃', description: 'Leafy green' },
+	mint: { hex: '#BAF2E9', emoji: '🌿', description: 'Special CTIW mint green!' },
+	slime: { hex: '#7FFF00', emoji: '🐸', description: 'Bright slimy green' },
+	sun: { hex: '#FFD93D', emoji: '☀️', description: 'Warm sunny yellow' },
+	banana: { hex: '#FFE135', emoji: '🍌', description: 'Banana yellow' },
+	lemon: { hex: '#FFF44F', emoji: '🍋', description: 'Lemon yellow' },
+	sand: { hex: '#E2CA76', emoji: '🏖️', description: 'Sandy beach color' },
+	pumpkin: { hex: '#FF7518', emoji: '🎃', description: 'Pumpkin orange' },
+	fire: { hex: '#FF4500', emoji: '🔥', description: 'Fiery orange-red' },
+	lava: { hex: '#CF1020', emoji: '🌋', description: 'Hot lava red' },
+	cherry: { hex: '#D2042D', emoji: '🍒', description: 'Cherry red' },
+	strawberry: { hex: '#FC5A8D', emoji: '🍓', description: 'Strawberry pink' },
+	bubblegum: { hex: '#FFC1CC', emoji: '🍬', description: 'Bubblegum pink' },
+	peach: { hex: '#FFCBA4', emoji: '🍑', description: 'Soft peach' },
+	grape: { hex: '#6F2DA8', emoji: '🍇', description: 'Grape purple' },
+	unicorn: { hex: '#E0B0FF', emoji: '🦄', description: 'Magical light purple' },
+	cloud: { hex: '#ECEFF1', emoji: '☁️', description: 'Soft cloudy white' }
+};
+
+/** CSS color names and their hex codes */
+export const CSS_COLORS: Readonly<Record<string, string>> = {
+	aliceblue: '#F0F8FF', antiquewhite: '#FAEBD7', aqua: '#00FFFF', aquamarine: '#7FFFD4',
+	azure: '#F0FFFF', beige: '#F5F5DC', bisque: '#FFE4C4', black: '#000000',
+	blanchedalmond: '#FFEBCD', blue: '#0000FF', blueviolet: '#8A2BE2', brown: '#A52A2A',
+	burlywood: '#DEB887', cadetblue: '#5F9EA0', chartreuse: '#7FFF00', chocolate: '#D2691E',
+	coral: '#FF7F50', cornflowerblue: '#6495ED', cornsilk: '#FFF8DC', crimson: '#DC143C',
+	cyan: '#00FFFF', darkblue: '#00008B', darkcyan: '#008B8B', darkgoldenrod: '#B8860B',
+	darkgray: '#A9A9A9', darkgreen: '#006400', darkgrey: '#A9A9A9', darkkhaki: '#BDB76B',
+	darkmagenta: '#8B008B', darkolivegreen: '#556B2F', darkorange: '#FF8C00', darkorchid: '#9932CC',
+	darkred: '#8B0000', darksalmon: '#E9967A', darkseagreen: '#8FBC8F', darkslateblue: '#483D8B',
+	darkslategray: '#2F4F4F', darkslategrey: '#2F4F4F', darkturquoise: '#00CED1', darkviolet: '#9400D3',
+	deeppink: '#FF1493', deepskyblue: '#00BFFF', dimgray: '#696969', dimgrey: '#696969',
+	dodgerblue: '#1E90FF', firebrick: '#B22222', floralwhite: '#FFFAF0', forestgreen: '#228B22',
+	fuchsia: '#FF00FF', gainsboro: '#DCDCDC', ghostwhite: '#F8F8FF', gold: '#FFD700',
+	goldenrod: '#DAA520', gray: '#808080', green: '#008000', greenyellow: '#ADFF2F',
+	grey: '#808080', honeydew: '#F0FFF0', hotpink: '#FF69B4', indianred: '#CD5C5C',
+	indigo: '#4B0082', ivory: '#FFFFF0', khaki: '#F0E68C', lavender: '#E6E6FA',
+	lavenderblush: '#FFF0F5', lawngreen: '#7CFC00', lemonchiffon: '#FFFACD', lightblue: '#ADD8E6',
+	lightcoral: '#F08080', lightcyan: '#E0FFFF', lightgoldenrodyellow: '#FAFAD2', lightgray: '#D3D3D3',
+	lightgreen: '#90EE90', lightgrey: '#D3D3D3', lightpink: '#FFB6C1', lightsalmon: '#FFA07A',
+	lightseagreen: '#20B2AA', lightskyblue: '#87CEFA', lightslategray: '#778899', lightslategrey: '#778899',
+	lightsteelblue: '#B0C4DE', lightyellow: '#FFFFE0', lime: '#00FF00', limegreen: '#32CD32',
+	linen: '#FAF0E6', magenta: '#FF00FF', maroon: '#800000', mediumaquamarine: '#66CDAA',
+	mediumblue: '#0000CD', mediumorchid: '#BA55D3', mediumpurple: '#9370DB', mediumseagreen: '#3CB371',
+	mediumslateblue: '#7B68EE', mediumspringgreen: '#00FA9A', mediumturquoise: '#48D1CC',
+	mediumvioletred: '#C71585', midnightblue: '#191970', mintcream: '#F5FFFA', mistyrose: '#FFE4E1',
+	moccasin: '#FFE4B5', navajowhite: '#FFDEAD', navy: '#000080', oldlace: '#FDF5E6',
+	olive: '#808000', olivedrab: '#6B8E23', orange: '#FFA500', orangered: '#FF4500',
+	orchid: '#DA70D6', palegoldenrod: '#EEE8AA', palegreen: '#98FB98', paleturquoise: '#AFEEEE',
+	palevioletred: '#DB7093', papayawhip: '#FFEFD5', peachpuff: '#FFDAB9', peru: '#CD853F',
+	pink: '#FFC0CB', plum: '#DDA0DD', powderblue: '#B0E0E6', purple: '#800080',
+	rebeccapurple: '#663399', red: '#FF0000', rosybrown: '#BC8F8F', royalblue: '#4169E1',
+	saddlebrown: '#8B4513', salmon: '#FA8072', sandybrown: '#F4A460', seagreen: '#2E8B57',
+	seashell: '#FFF5EE', sienna: '#A0522D', silver: '#C0C0C0', skyblue: '#87CEEB',
+	slateblue: '#6A5ACD', slategray: '#708090', slategrey: '#708090', snow: '#FFFAFA',
+	springgreen: '#00FF7F', steelblue: '#4682B4', tan: '#D2B48C', teal: '#008080',
+	thistle: '#D8BFD8', tomato: '#FF6347', turquoise: '#40E0D0', violet: '#EE82EE',
+	wheat: '#F5DEB3', white: '#FFFFFF', whitesmoke: '#F5F5F5', yellow: '#FFFF00',
+	yellowgreen: '#9ACD32'
+};
+
+/** CSS color words that aren't a single color */
+const COLOR_KEYWORDS: ReadonlySet<string> = new Set(['transparent', 'currentcolor']);
+
+const HEX_LENGTHS: ReadonlySet<number> = new Set([3, 6, 8]);
+
+// rgb(255, 0, 0), rgba(255 0 0 / 50%), hsl(120deg, 100%, 50%), ...
+const COLOR_FUNCTION = /^(rgba?|hsla?)\((.*)\)$/i;
+
+// A number, with an optional unit or percent
+const FUNCTION_ARG = /^(-?(?:\d+(?:\.\d+)?|\.\d+))(%|deg)?$/i;
+
+/**
+ * Check a color and turn it into CSS. Names come out lowercase (kid names
+ * as their hex code) and hex codes get a #.
+ *
+ * @example
+ * parseColor('Sky') // { ok: true, css: '#87CEEB' }
+ * parseColor('F00') // { ok: true, css: '#F00' }
+ * parseColor('bleu') // { ok: false, message: "bleu isn't a real color. Did you mean blue?", suggestion: 'blue' }
+ */
+export function parseColor(raw: string): ColorResult {
+	const name = raw.toLowerCase();
+	if (Object.hasOwn(CSS_COLORS, name) || COLOR_KEYWORDS.has(name)) {
+		return { ok: true, css: name };
+	}
+	if (Object.hasOwn(KID_COLORS, name)) {
+		return { ok: true, css: KID_COLORS[name].hex };
+	}
+
+	const fn = raw.match(COLOR_FUNCTION);
+	if (fn) {
+		return parseColorFunction(raw, fn[1].toLowerCase(), fn[2]);
+	}
+
+	const hex = raw.replace(/^#/, '');
+	if (/^[0-9a-f]+$/i.test(hex) && HEX_LENGTHS.has(hex.length)) {
+		return { ok: true, css: `#${hex}` };
+	}
+
+	// A # or a digit means it was meant to be a hex code
+	if (hex !== raw || /\d/.test(hex)) {
+		const notHex = [...hex].find((char) => !/[0-9a-f]/i.test(char));
+		if (notHex) {
+			return { ok: false, message: `${raw} isn't a real color, ${notHex} isn't a hex digit` };
+		}
+		return {
+			ok: false,
+			message:
+				`${raw} isn't a real color. Color codes need 3, 6 or 8 letters/numbers, ` +
+				'like F00 or FF0000 for red, or FF000080 for see-through red!'
+		};
+	}
+
+	const suggestion = findClosest(name, colorNames());
+	if (suggestion) {
+		return { ok: false, message: `${raw} isn't a real color. Did you mean ${suggestion}?`, suggestion };
+	}
+	return {
+		ok: false,
+		message: `${raw} isn't a color I know. Try a name like red or sky, or a code like FF0000`
+	};
+}
+
+/**
+ * All the color names, kid names first
+ */
+export function colorNames(): string[] {
+	return [...Object.keys(KID_COLORS), ...Object.keys(CSS_COLORS)];
+}
+
+/**
+ * rgb() takes 3 numbers from 0 to 255 (or percents), hsl() an angle and
+ * 2 percents. Both can end with / and an opacity, or take a 4th one as
+ * rgba() and hsla().
+ */
+function parseColorFunction(raw: string, name: string, inside: string): ColorResult {
+	const args = inside.trim().split(/\s*[,/]\s*|\s+/);
+	const isRGB = name.startsWith('rgb');
+
+	const valid =
+		(args.length === 3 || args.length === 4) &&
+		args.every((arg, index) => {
+			const match = arg.match(FUNCTION_ARG);
+			if (!match) {
+				return false;
+			}
+			const value = Number(match[1]);
+			const unit = match[2]?.toLowerCase();
+			if (index === 3) {
+				return unit === '%' ? value >= 0 && value <= 100 : !unit && value >= 0 && value <= 1;
+			}
+			if (isRGB) {
+				return unit === '%' ? value >= 0 && value <= 100 : !unit && value >= 0 && value <= 255;
+			}
+			if (index === 0) {
+				return unit !== '%';
+			}
+			return unit === '%' && value >= 0 && value <= 100;
+		});
+
+	if (!valid) {
+		const hint = isRGB
+			? 'rgb() needs 3 numbers from 0 to 255, like rgb(255, 0, 0) for red!'
+			: 'hsl() needs an angle and 2 percents, like hsl(0, 100%, 50%) for red!';
+		return { ok: false, message: `${raw} isn't a real color. ${hint}` };
+	}
+	return { ok: true, css: `${name}(${args.join(', ')})` };
+}
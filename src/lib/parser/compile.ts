@@ -0,0 +1,58 @@
+/**
+ * CTIW Compiler
+ *
+ * One call from CTIW code to everything made from it: the problems found,
+ * the complete page, and the page's parts on their own. The parts are what
+ * the page is put together from, so they can also go somewhere else:
+ * - css, js and bodyFragment to embed the page inside another one
+ * - head, css, js and bodyFragment to save it as separate files
+ * - assets to know which pictures and videos to bring along
+ *
+ * @module parser/compile
+ */
+
+import type { DocumentNode } from './ast';
+import type { Diagnostic } from './diagnostics';
+import { parse, type ParseOptions } from './parser';
+import {
+	generateParts,
+	assembleHTML,
+	collectAssets,
+	type CodegenOptions,
+	type PageParts,
+	type PageAsset
+} from './codegen';
+
+/** Options for compiling, for both parsing and code generation */
+export interface CompileOptions extends ParseOptions, CodegenOptions {}
+
+/** Everything made from some CTIW code */
+export interface CompileResult extends PageParts {
+	/** The complete page (the parts put together) */
+	html: string;
+	/** The problems found in the code */
+	diagnostics: Diagnostic[];
+	/** The files the page loads */
+	assets: PageAsset[];
+	/** The AST the page was made from */
+	document: DocumentNode;
+}
+
+/**
+ * Compile CTIW code into a page and its parts
+ *
+ * @example
+ * const { html, css, bodyFragment, diagnostics } = compile('=CTIW=\n=title=Hi=\n==CTIW==');
+ */
+export function compile(source: string, options: CompileOptions = {}): CompileResult {
+	const { document, errors } = parse(source, options);
+	const parts = generateParts(document, options);
+
+	return {
+		...parts,
+		html: assembleHTML(parts),
+		diagnostics: errors,
+		assets: collectAssets(document),
+		document
+	};
+}
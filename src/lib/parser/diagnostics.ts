@@ -0,0 +1,254 @@
+/**
+ * CTIW Diagnostics
+ *
+ * The problems CTIW finds in a document, in one shape shared by the parser,
+ * its checks, the editor and the preview. Every kind of problem has a code
+ * that never changes (CTIW0020 is always an unknown element), so teachers can
+ * filter them and the AI helper can talk about them, and a severity:
+ * - error: CTIW can't make sense of it
+ * - warning: it works, but it's most likely a mistake
+ * - info: it works, but there's a newer way to write it
+ * - hint: a suggestion
+ *
+ * @module parser/diagnostics
+ */
+
+import type { SourceLocation } from './ast';
+import { createLocation } from './ast';
+
+/** How serious a problem is */
+export type DiagnosticSeverity = 'error' | 'warning' | 'info' | 'hint';
+
+/** Severities from most to least serious */
+export const SEVERITIES: readonly DiagnosticSeverity[] = ['error', 'warning', 'info', 'hint'];
+
+/**
+ * The code of each kind of problem. Codes are grouped by tens:
+ * 000x the document, 001x lines, 002x elements and properties,
+ * 003x boxes, 004x dots and 005x line numbers.
+ */
+export enum DiagnosticCode {
+	// The document
+	MissingHeader = 'CTIW0001',
+	MissingFooter = 'CTIW0002',
+
+	// Lines
+	UnknownCharacter = 'CTIW0010',
+	UnclosedQuote = 'CTIW0011',
+	UnclosedComment = 'CTIW0012',
+	NotAStatement = 'CTIW0013',
+	MissingName = 'CTIW0014',
+	MissingEquals = 'CTIW0015',
+	InvalidElementName = 'CTIW0016',
+	UnknownSpecial = 'CTIW0017',
+
+	// Elements and properties
+	UnknownElement = 'CTIW0020',
+	UnknownProperty = 'CTIW0021',
+	MisplacedProperty = 'CTIW0022',
+	InvalidValue = 'CTIW0023',
+	LegacyColor = 'CTIW0024',
+	InvalidId = 'CTIW0025',
+	DuplicateId = 'CTIW0026',
+
+	// Boxes (containers)
+	UnclosedContainer = 'CTIW0030',
+	UnclosedBeforeCloser = 'CTIW0031',
+	CloserDots = 'CTIW0032',
+	MismatchedCloser = 'CTIW0033',
+	StrayCloser = 'CTIW0034',
+
+	// Dots
+	UnevenDots = 'CTIW0040',
+	TooManyDots = 'CTIW0041',
+	DotsOutsideContainer = 'CTIW0042',
+	MissingDots = 'CTIW0043',
+
+	// Line numbers
+	RepeatedLineNumber = 'CTIW0050',
+	LineNumberOrder = 'CTIW0051'
+}
+
+/** What a kind of problem is */
+export interface DiagnosticDefinition {
+	/** How serious it is */
+	severity: DiagnosticSeverity;
+	/** A short description, for teachers and the AI helper */
+	summary: string;
+}
+
+/**
+ * Every kind of problem, with its severity
+ */
+export const DIAGNOSTIC_DEFINITIONS: Readonly<Record<DiagnosticCode, DiagnosticDefinition>> = {
+	[DiagnosticCode.MissingHeader]: { severity: 'error', summary: "The code doesn't start with ==CTIW==" },
+	[DiagnosticCode.MissingFooter]: { severity: 'error', summary: "The code doesn't end with ==CTIW==" },
+	[DiagnosticCode.UnknownCharacter]: { severity: 'error', summary: "A character CTIW doesn't understand" },
+	[DiagnosticCode.UnclosedQuote]: { severity: 'error', summary: 'A quote that never ends' },
+	[DiagnosticCode.UnclosedComment]: { severity: 'error', summary: 'A /* comment that never ends' },
+	[DiagnosticCode.NotAStatement]: { severity: 'error', summary: "A line that doesn't start with =" },
+	[DiagnosticCode.MissingName]: { severity: 'error', summary: 'An = with no name after it' },
+	[DiagnosticCode.MissingEquals]: { severity: 'error', summary: 'A name with no = after it' },
+	[DiagnosticCode.InvalidElementName]: { severity: 'error', summary: "A name that can't be an element, like =123=" },
+	[DiagnosticCode.UnknownSpecial]: { severity: 'error', summary: "A special element that doesn't exist, like =(date)=" },
+	[DiagnosticCode.UnknownElement]: { severity: 'warning', summary: "An element CTIW doesn't know, most likely a typo" },
+	[DiagnosticCode.UnknownProperty]: { severity: 'warning', summary: "A property CTIW doesn't know, most likely a typo" },
+	[DiagnosticCode.MisplacedProperty]: { severity: 'warning', summary: "A property that doesn't do anything on its element" },
+	[DiagnosticCode.InvalidValue]: { severity: 'error', summary: "A value that doesn't fit its property, like text-color=purpel=" },
+	[DiagnosticCode.LegacyColor]: { severity: 'info', summary: 'The older color= property (now background-color=)' },
+	[DiagnosticCode.InvalidId]: { severity: 'warning', summary: "An id that doesn't work in HTML and CSS, like id:1st=" },
+	[DiagnosticCode.DuplicateId]: { severity: 'warning', summary: 'An id used by more than one element' },
+	[DiagnosticCode.UnclosedContainer]: { severity: 'error', summary: 'A box that never gets closed' },
+	[DiagnosticCode.UnclosedBeforeCloser]: { severity: 'error', summary: 'A box still open when the box around it closes' },
+	[DiagnosticCode.CloserDots]: { severity: 'error', summary: "A closing line whose dots don't match its opening line" },
+	[DiagnosticCode.MismatchedCloser]: { severity: 'error', summary: "A closing line that doesn't match the open box" },
+	[DiagnosticCode.StrayCloser]: { severity: 'error', summary: 'A closing line with no box to close' },
+	[DiagnosticCode.UnevenDots]: { severity: 'warning', summary: "Dots that aren't a whole number of levels" },
+	[DiagnosticCode.TooManyDots]: { severity: 'error', summary: 'A line with more dots than its box needs' },
+	[DiagnosticCode.DotsOutsideContainer]: { severity: 'error', summary: "A line with dots that isn't inside a box" },
+	[DiagnosticCode.MissingDots]: { severity: 'error', summary: 'A line inside a box without enough dots' },
+	[DiagnosticCode.RepeatedLineNumber]: { severity: 'warning', summary: 'A line number used twice' },
+	[DiagnosticCode.LineNumberOrder]: { severity: 'warning', summary: 'A line number smaller than the one before it' }
+};
+
+/** Another place in the code that explains a problem, like where a box was opened */
+export interface RelatedLocation {
+	message: string;
+	range: SourceLocation;
+}
+
+/**
+ * A change to the code: the text in range is replaced with text
+ * (an empty range inserts, and empty text deletes)
+ */
+export interface TextEdit {
+	range: SourceLocation;
+	text: string;
+}
+
+/** A way to fix a problem, like "Change it to =button=" */
+export interface DiagnosticFix {
+	/** What the fix does */
+	title: string;
+	/** The changes that make it */
+	edits: TextEdit[];
+}
+
+/** A problem found in a document */
+export interface Diagnostic {
+	/** What kind of problem it is, like CTIW0020 */
+	code: DiagnosticCode;
+	severity: DiagnosticSeverity;
+	/** A kid-friendly explanation */
+	message: string;
+	/** Where the problem starts (the same as range.start) */
+	line: number;
+	column: number;
+	/** The code the problem is about */
+	range: SourceLocation;
+	/** Other places that explain the problem */
+	related?: RelatedLocation[];
+	/** Ways to fix it */
+	fixes?: DiagnosticFix[];
+}
+
+/** The parts of a diagnostic that only some problems have */
+export type DiagnosticDetails = Pick<Diagnostic, 'related' | 'fixes'>;
+
+/**
+ * Create a diagnostic, with the severity its code has
+ *
+ * @example
+ * createDiagnostic(DiagnosticCode.UnknownElement, "Hmm, I don't know an element called =buton=...", range)
+ */
+export function createDiagnostic(
+	code: DiagnosticCode,
+	message: string,
+	range: SourceLocation,
+	details: DiagnosticDetails = {}
+): Diagnostic {
+	return {
+		code,
+		severity: DIAGNOSTIC_DEFINITIONS[code].severity,
+		message,
+		line: range.start.line,
+		column: range.start.column,
+		range,
+		...details
+	};
+}
+
+/**
+ * A range that covers one spot on a line (from column up to endColumn)
+ */
+export function lineRange(line: number, column: number, endColumn: number = column): SourceLocation {
+	return createLocation(line, column, line, Math.max(column, endColumn));
+}
+
+/**
+ * Apply the first fix of each diagnostic to the source. A fix that touches
+ * the same code as an earlier one is left out, since the earlier fix may
+ * change what it needs; parse the result and apply again to get to it.
+ *
+ * @example
+ * applyFixes('==CTIW==\n=buton=Go=\n==CTIW==', parse(source).errors)
+ * // '==CTIW==\n=button=Go=\n==CTIW=='
+ */
+export function applyFixes(source: string, diagnostics: Diagnostic[]): string {
+	const lineStarts = [0];
+	for (let i = 0; i < source.length; i++) {
+		if (source[i] === '\n') {
+			lineStarts.push(i + 1);
+		}
+	}
+	const offsetOf = ({ line, column }: SourceLocation['start']): number => {
+		const index = Math.min(Math.max(line, 1), lineStarts.length) - 1;
+		const lineEnd = index + 1 < lineStarts.length ? lineStarts[index + 1] - 1 : source.length;
+		return Math.min(lineStarts[index] + Math.max(column - 1, 0), lineEnd);
+	};
+
+	const accepted: { from: number; to: number; text: string }[] = [];
+	for (const diagnostic of diagnostics) {
+		const fix = diagnostic.fixes?.[0];
+		if (!fix) {
+			continue;
+		}
+		const edits = fix.edits.map((edit) => ({
+			from: offsetOf(edit.range.start),
+			to: Math.max(offsetOf(edit.range.start), offsetOf(edit.range.end)),
+			text: edit.text
+		}));
+		const overlaps = edits.some((edit) =>
+			accepted.some((other) => edit.from === other.from || (edit.from < other.to && other.from < edit.to))
+		);
+		if (!overlaps) {
+			accepted.push(...edits);
+		}
+	}
+
+	// Right to left, so each edit leaves the offsets of the ones before it alone
+	let fixed = source;
+	for (const edit of accepted.sort((a, b) => b.from - a.from)) {
+		fixed = fixed.slice(0, edit.from) + edit.text + fixed.slice(edit.to);
+	}
+	return fixed;
+}
+
+/**
+ * Keep the diagnostics at least as serious as a severity
+ *
+ * @example
+ * diagnosticsAtLeast(result.errors, 'warning') // errors and warnings
+ */
+export function diagnosticsAtLeast(diagnostics: Diagnostic[], severity: DiagnosticSeverity): Diagnostic[] {
+	const limit = SEVERITIES.indexOf(severity);
+	return diagnostics.filter((diagnostic) => SEVERITIES.indexOf(diagnostic.severity) <= limit);
+}
+
+/**
+ * Describe a diagnostic in one line, like
+ * "Line 3: Hmm, I don't know an element called =buton=. Did you mean =button=? (CTIW0020)"
+ */
+export function formatDiagnostic(diagnostic: Diagnostic): string {
+	return `Line ${diagnostic.line}: ${diagnostic.message} (${diagnostic.code})`;
+}
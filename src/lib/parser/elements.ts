@@ -0,0 +1,91 @@
+/**
+ * CTIW Element Catalog
+ *
+ * The elements CTIW knows: its own (title, text, button, ...), its
+ * containers (see CONTAINER_ELEMENTS), and the standard HTML tags. A name
+ * outside the catalog is most likely a typo, like =buton=, so the parser
+ * warns about it with the closest name it knows.
+ *
+ * Custom elements are allowed on purpose by putting a dash in their name,
+ * the same rule HTML uses for its custom elements: =my-widget=.
+ *
+ * @module parser/elements
+ */
+
+import { CORE_ELEMENT_TYPES, CONTAINER_ELEMENTS } from './ast';
+import { findClosest } from './suggest';
+
+/**
+ * CTIW's own elements that aren't containers (they come first in suggestions)
+ */
+export const CTIW_ELEMENTS: readonly string[] = [
+	...CORE_ELEMENT_TYPES,
+	'heading', 'subheading', 'checkbox', 'radio'
+];
+
+/**
+ * Standard HTML tags that work as elements. The tags of the page itself
+ * (html, head, body, meta, script, style, ...) are left out.
+ */
+export const HTML_ELEMENTS: ReadonlySet<string> = new Set([
+	'a', 'abbr', 'address', 'area', 'article', 'aside', 'audio', 'b', 'bdi', 'bdo',
+	'blockquote', 'br', 'button', 'canvas', 'caption', 'cite', 'code', 'col', 'colgroup',
+	'data', 'datalist', 'dd', 'del', 'details', 'dfn', 'dialog', 'div', 'dl', 'dt', 'em',
+	'embed', 'fieldset', 'figcaption', 'figure', 'footer', 'form', 'h1', 'h2', 'h3', 'h4',
+	'h5', 'h6', 'header', 'hgroup', 'hr', 'i', 'iframe', 'img', 'input', 'ins', 'kbd',
+	'label', 'legend', 'li', 'main', 'map', 'mark', 'menu', 'meter', 'nav', 'object', 'ol',
+	'optgroup', 'option', 'output', 'p', 'picture', 'pre', 'progress', 'q', 'rp', 'rt',
+	'ruby', 's', 'samp', 'search', 'section', 'select', 'small', 'source', 'span', 'strong',
+	'sub', 'summary', 'sup', 'table', 'tbody', 'td', 'textarea', 'tfoot', 'th', 'thead',
+	'time', 'tr', 'track', 'u', 'ul', 'var', 'video', 'wbr'
+]);
+
+/**
+ * Check if an element is in the catalog
+ */
+export function isKnownElement(name: string): boolean {
+	const element = name.toLowerCase();
+	return (
+		CTIW_ELEMENTS.includes(element) ||
+		Object.hasOwn(CONTAINER_ELEMENTS, element) ||
+		HTML_ELEMENTS.has(element)
+	);
+}
+
+/**
+ * Check if an element name is a custom element: one with a dash in it,
+ * like my-widget
+ */
+export function isCustomElement(name: string): boolean {
+	return /^[a-z][a-z0-9]*-[a-z0-9-]*$/i.test(name);
+}
+
+/** The warning for an element that isn't in the catalog */
+export interface UnknownElementWarning {
+	message: string;
+	/** The closest element that is, if one is close */
+	suggestion: string | null;
+}
+
+/**
+ * The warning for an element that isn't in the catalog (and isn't a custom
+ * element), with the closest one that is. Null for elements that are fine.
+ *
+ * @example
+ * unknownElementWarning('buton')?.message // "Hmm, I don't know an element called =buton=. Did you mean =button=?"
+ */
+export function unknownElementWarning(name: string): UnknownElementWarning | null {
+	if (isKnownElement(name) || isCustomElement(name)) {
+		return null;
+	}
+
+	const suggestion = findClosest(name, [
+		...CTIW_ELEMENTS,
+		...Object.keys(CONTAINER_ELEMENTS),
+		...HTML_ELEMENTS
+	]);
+	const message = suggestion
+		? `Hmm, I don't know an element called =${name}=. Did you mean =${suggestion}=?`
+		: `Hmm, I don't know an element called =${name}=. To make your own, put a dash in its name, like =my-${name}=`;
+	return { message, suggestion };
+}
@@ -0,0 +1,114 @@
+/**
+ * CTIW Escapes and Quoted Values
+ *
+ * An = ends content and values, so there are two ways to write one inside them:
+ * - A backslash escape: `=text=2+2\=4=`. `\=`, `\\`, `\"`, `\:` and `\ ` (a space)
+ *   stand for the character after the backslash, and so do the inline
+ *   formatting characters (`\*`, `\_`, `\~`, `\{`, `\}`, `\[`, `\]`). Any other
+ *   backslash is just a backslash, so `C:\pics` works as-is.
+ * - Double quotes: `=text="2+2=4"=` or `title="Hi there"=`. Everything up to
+ *   the closing quote is kept, = signs and spaces included.
+ *
+ * The lexer keeps the text as written (so token positions stay exact), and
+ * the parser turns it into the real value with unescapeValue(). The editor
+ * uses the same rules for highlighting and completions.
+ *
+ * @module parser/escapes
+ */
+
+/** Characters a backslash can escape */
+const ESCAPABLE = new Set(['=', '\\', '"', ':', ' ', '*', '_', '~', '{', '}', '[', ']']);
+
+/**
+ * Check if there is an escape (a backslash and the character it escapes)
+ * at a position in the text
+ */
+export function isEscapeAt(text: string, index: number): boolean {
+	return text[index] === '\\' && ESCAPABLE.has(text[index + 1]);
+}
+
+/**
+ * Find the closing quote of a quoted value that opens at a position
+ * @returns The index of the closing quote, or -1 if the quote never ends
+ */
+export function findClosingQuote(text: string, open: number): number {
+	for (let i = open + 1; i < text.length && text[i] !== '\n'; i++) {
+		if (isEscapeAt(text, i)) {
+			i++;
+		} else if (text[i] === '"') {
+			return i;
+		}
+	}
+	return -1;
+}
+
+/**
+ * Take the quotes off a quoted value, leaving its escapes in place
+ */
+export function unquoteValue(raw: string): string {
+	if (!raw.startsWith('"')) {
+		return raw;
+	}
+	const close = findClosingQuote(raw, 0);
+	// Be forgiving about a missing closing quote (the lexer reports it)
+	return close === -1 ? raw.slice(1) : raw.slice(1, close) + raw.slice(close + 1);
+}
+
+/**
+ * Replace the escapes in text with the characters they stand for
+ */
+export function unescapeText(text: string): string {
+	let result = '';
+	for (let i = 0; i < text.length; i++) {
+		if (isEscapeAt(text, i)) {
+			i++;
+		}
+		result += text[i];
+	}
+	return result;
+}
+
+/**
+ * Turn content or a value as written into the text it stands for:
+ * quotes are taken off and escapes are replaced
+ *
+ * @example
+ * unescapeValue('2+2\\=4') // '2+2=4'
+ * unescapeValue('"Hi = there"') // 'Hi = there'
+ */
+export function unescapeValue(raw: string): string {
+	return unescapeText(unquoteValue(raw));
+}
+
+/**
+ * Write text so it reads back as itself in content: = signs and the
+ * backslashes that would start an escape get a backslash
+ *
+ * @example
+ * escapeContent('2+2=4') // '2+2\\=4'
+ */
+export function escapeContent(text: string): string {
+	let result = '';
+	for (let i = 0; i < text.length; i++) {
+		if (text[i] === '=' || isEscapeAt(text, i) || (text[i] === '\\' && i === text.length - 1)) {
+			result += '\\';
+		}
+		result += text[i];
+	}
+	return result;
+}
+
+/**
+ * Write text so it reads back as itself as an attribute value, quoting it
+ * when it has spaces, = signs, quotes or backslashes
+ *
+ * @example
+ * quoteValue('main') // 'main'
+ * quoteValue('Comic Sans') // '"Comic Sans"'
+ */
+export function quoteValue(text: string): string {
+	if (text !== '' && !/[\s="\\]/.test(text)) {
+		return text;
+	}
+	return `"${text.replace(/["\\]/g, '\\$&')}"`;
+}
@@ -0,0 +1,186 @@
+/**
+ * CTIW Element IDs
+ *
+ * Checks the ids kids give elements with id:name, and works out the id each
+ * element is written with:
+ * - a valid id is kept, the first time it's used
+ * - ids that aren't valid are cleaned up (my box becomes my-box, 1st
+ *   becomes id-1st), so they work in HTML and as #id in CSS
+ * - an id used again, or cleaned up into one that's taken, gets a number
+ *   (the second box becomes box-2)
+ * - when asked for, elements without an id get one (title-1, button-2, ...)
+ *
+ * The same rules make the quick fixes, so fixing the code gives the ids the
+ * page already had.
+ *
+ * @module parser/ids
+ */
+
+import type { DocumentNode, ElementNode, CTIWNode, SourceLocation } from './ast';
+import { isElementNode, isErrorNode } from './ast';
+import { DiagnosticCode, createDiagnostic, type Diagnostic } from './diagnostics';
+
+/** What an id can be: a letter, then letters, numbers, - and _ */
+const VALID_ID = /^[A-Za-z][\w-]*$/;
+
+/**
+ * Check if an id works in HTML and as #id in CSS
+ *
+ * @example
+ * isValidId('main-box') // true
+ * isValidId('1st') // false
+ */
+export function isValidId(id: string): boolean {
+	return VALID_ID.test(id);
+}
+
+/**
+ * Turn an id into a valid one, the same way every time
+ *
+ * @example
+ * sanitizeId('my box!') // 'my-box'
+ * sanitizeId('1st') // 'id-1st'
+ */
+export function sanitizeId(id: string): string {
+	const cleaned = id.replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '');
+	if (cleaned === '') {
+		return 'id';
+	}
+	return /^[A-Za-z]/.test(cleaned) ? cleaned : `id-${cleaned}`;
+}
+
+/**
+ * Every element in a document, in order (including the ones inside a
+ * broken container)
+ */
+function allElements(nodes: CTIWNode[]): ElementNode[] {
+	return nodes.flatMap((node) => {
+		if (isElementNode(node)) {
+			return [node, ...allElements(node.children)];
+		}
+		return isErrorNode(node) ? allElements(node.children) : [];
+	});
+}
+
+/**
+ * The id an element was given ('' when it has none)
+ */
+function ownId(element: ElementNode): string {
+	return String(element.properties.id ?? '');
+}
+
+/**
+ * Work out the id each element is written with: its own id, made valid,
+ * unless it's taken (then it gets a number), and (with autoIds) its type
+ * and a number for elements without one. Valid ids go first, so an id
+ * that was cleaned up never takes one that was written that way. Elements
+ * without an id aren't in the map unless autoIds is on.
+ *
+ * @example
+ * assignIds(parse('=CTIW=\n=text=A= id:box=\n=text=B= id:box=\n==CTIW==').document)
+ * // the first text gets box, the second box-2
+ */
+export function assignIds(document: DocumentNode, autoIds: boolean = false): Map<ElementNode, string> {
+	const elements = allElements(document.children);
+	const assigned = new Map<ElementNode, string>();
+
+	// Every id written in the code stays free for the element it's written on
+	const reserved = new Set(elements.map(ownId).filter((id) => id !== '').map(sanitizeId));
+	const taken = new Set<string>();
+	const numbered = (base: string, from: number): string => {
+		let n = from;
+		while (reserved.has(`${base}-${n}`) || taken.has(`${base}-${n}`)) {
+			n++;
+		}
+		return `${base}-${n}`;
+	};
+	const assign = (element: ElementNode, id: string): void => {
+		assigned.set(element, id);
+		taken.add(id);
+	};
+
+	// The first use of each valid id keeps it
+	for (const element of elements) {
+		const id = ownId(element);
+		if (isValidId(id) && !taken.has(id)) {
+			assign(element, id);
+		}
+	}
+
+	// Then ids used again and ids that aren't valid, in order
+	for (const element of elements) {
+		const id = ownId(element);
+		if (id === '' || assigned.has(element)) continue;
+
+		const clean = sanitizeId(id);
+		assign(element, taken.has(clean) ? numbered(clean, 2) : clean);
+	}
+
+	if (autoIds) {
+		for (const element of elements) {
+			if (assigned.has(element)) continue;
+
+			assign(element, numbered(sanitizeId(element.elementType), 1));
+		}
+	}
+
+	// In the order of the code
+	const ids = new Map<ElementNode, string>();
+	for (const element of elements) {
+		const id = assigned.get(element);
+		if (id !== undefined) {
+			ids.set(element, id);
+		}
+	}
+	return ids;
+}
+
+/**
+ * Where an element's id is written (its value, or the whole element)
+ */
+function idRange(element: ElementNode): SourceLocation {
+	const location = element.propertyLocations?.id;
+	return location?.value ?? location?.key ?? element.location;
+}
+
+/**
+ * Warn about ids that aren't valid and ids written more than once (pointing
+ * at the first use too), each with a fix to the id the page uses
+ */
+export function validateIds(document: DocumentNode): Diagnostic[] {
+	const warnings: Diagnostic[] = [];
+	const ids = assignIds(document);
+	const firstUses = new Map<string, ElementNode>();
+
+	for (const [element, assigned] of ids) {
+		const id = ownId(element);
+		const range = idRange(element);
+		const fixes = [{ title: `Change it to ${assigned}`, edits: [{ range, text: assigned }] }];
+		const firstUse = firstUses.get(id);
+
+		if (firstUse) {
+			warnings.push(
+				createDiagnostic(
+					DiagnosticCode.DuplicateId,
+					`The id ${id} is already used on line ${firstUse.location.start.line}. Each id can only be used once`,
+					range,
+					{ related: [{ message: `The id ${ownId(firstUse)} is first used here`, range: idRange(firstUse) }], fixes }
+				)
+			);
+		} else {
+			firstUses.set(id, element);
+			if (!isValidId(id)) {
+				warnings.push(
+					createDiagnostic(
+						DiagnosticCode.InvalidId,
+						`${id} can't be an id. Ids start with a letter and have letters, numbers, - and _, like ${assigned}`,
+						range,
+						{ fixes }
+					)
+				);
+			}
+		}
+	}
+
+	return warnings;
+}
@@ -0,0 +1,345 @@
+/**
+ * CTIW Inline Formatting
+ *
+ * Content like =text=I *really* like {red: apples}!= can format parts of itself:
+ * - `*bold*`, `_italic_` and `~underline~`
+ * - `{red: colored text}` (a color name, or a hex code like {FF8800: this})
+ * - `[a link](https://example.com)`
+ * - Emoji shortcodes like `:smile:` (see EMOJI)
+ *
+ * Formatting can be nested: *bold and {blue: blue}*. Markup that never gets
+ * closed, like a lonely *, is just text. A * only starts bold at the start of
+ * a word and ends it at the end of one, so 2*3*4 and snake_case stay as
+ * they are. A backslash turns markup into plain text: \*not bold\*.
+ *
+ * @module parser/inline
+ */
+
+import type { InlineNode, InlineStyle } from './ast';
+import { isEscapeAt } from './escapes';
+
+/** Emoji shortcodes kids can use, like :smile: */
+export const EMOJI: Readonly<Record<string, string>> = {
+	smile: '😄',
+	grin: '😁',
+	laugh: '😂',
+	wink: '😉',
+	cool: '😎',
+	think: '🤔',
+	sad: '😢',
+	wow: '😮',
+	heart: '❤️',
+	star: '⭐',
+	sparkles: '✨',
+	fire: '🔥',
+	rainbow: '🌈',
+	sun: '☀️',
+	moon: '🌙',
+	tada: '🎉',
+	thumbsup: '👍',
+	wave: '👋',
+	check: '✅',
+	x: '❌',
+	question: '❓',
+	cat: '🐱',
+	dog: '🐶',
+	unicorn: '🦄',
+	dinosaur: '🦖',
+	flower: '🌸',
+	tree: '🌳',
+	pizza: '🍕',
+	cake: '🎂',
+	rocket: '🚀',
+	robot: '🤖',
+	alien: '👽',
+	ghost: '👻',
+	crown: '👑',
+	gem: '💎',
+	music: '🎵',
+	game: '🎮',
+	ball: '⚽'
+};
+
+/** The character that starts and ends each style */
+const STYLE_MARKERS: Readonly<Record<string, InlineStyle>> = {
+	'*': 'bold',
+	_: 'italic',
+	'~': 'underline'
+};
+
+// {red: ...} or {FF8800: ...}
+const COLOR_OPENER = /\{(#?[A-Za-z0-9]+):[ \t]?/y;
+
+// :smile:
+const EMOJI_CODE = /:([a-z0-9_+-]+):/y;
+
+// (https://example.com) right after the ] of a link's text
+const LINK_TARGET = /\(([^()\s]+)\)/y;
+
+/**
+ * Parse content as written (escapes still in it) into inline nodes
+ *
+ * @example
+ * parseInline('Hi *there*')
+ * // [{ type: 'InlineText', text: 'Hi ' },
+ * //  { type: 'InlineStyle', style: 'bold', children: [{ type: 'InlineText', text: 'there' }] }]
+ */
+export function parseInline(raw: string): InlineNode[] {
+	return new InlineParser(raw).parse();
+}
+
+/**
+ * Get the plain text of inline nodes (emoji included, formatting left out)
+ */
+export function inlineText(nodes: InlineNode[]): string {
+	return nodes
+		.map((node) => {
+			switch (node.type) {
+				case 'InlineText':
+					return node.text;
+				case 'InlineEmoji':
+					return node.emoji;
+				default:
+					return inlineText(node.children);
+			}
+		})
+		.join('');
+}
+
+/**
+ * Check if inline nodes have any formatting (more than plain text)
+ */
+export function hasFormatting(nodes: InlineNode[]): boolean {
+	return nodes.some((node) => node.type !== 'InlineText');
+}
+
+/**
+ * Recursive descent over the content text. Markup that never closes is
+ * kept as text. Before parsing a piece of markup, it's checked to close
+ * (see markupEnd), so nothing is parsed and then thrown away.
+ */
+class InlineParser {
+	private text: string;
+	private pos: number = 0;
+
+	// Where the markup starting at each position ends (-1 if it never closes)
+	private markupEnds: Map<number, number> = new Map();
+
+	// Where looking for each closer from each position ends (-1 if it never
+	// comes), so no stretch of text is looked through twice for the same closer
+	private scanEnds: Map<string, Map<number, number>> = new Map();
+
+	constructor(text: string) {
+		this.text = text;
+	}
+
+	parse(): InlineNode[] {
+		return this.parseUntil(null) ?? [];
+	}
+
+	/**
+	 * Parse nodes up to a closing character (or the end of the text).
+	 * Returns null if the closer never comes.
+	 */
+	private parseUntil(closer: string | null): InlineNode[] | null {
+		const nodes: InlineNode[] = [];
+		let text = '';
+
+		const flush = () => {
+			if (text) {
+				nodes.push({ type: 'InlineText', text });
+				text = '';
+			}
+		};
+
+		while (this.pos < this.text.length) {
+			if (closer !== null && this.isCloser(closer, this.pos)) {
+				this.pos++;
+				flush();
+				return nodes;
+			}
+
+			if (isEscapeAt(this.text, this.pos)) {
+				text += this.text[this.pos + 1];
+				this.pos += 2;
+				continue;
+			}
+
+			const node = this.parseMarkup();
+			if (node) {
+				flush();
+				nodes.push(node);
+				continue;
+			}
+
+			text += this.text[this.pos++];
+		}
+
+		if (closer !== null) {
+			return null;
+		}
+		flush();
+		return nodes;
+	}
+
+	/**
+	 * Parse the markup that starts at the current position, if any
+	 */
+	private parseMarkup(): InlineNode | null {
+		return this.markupEnd(this.pos) === -1 ? null : this.parseOpener(this.text[this.pos]);
+	}
+
+	private parseOpener(char: string): InlineNode | null {
+		const style = STYLE_MARKERS[char];
+		if (style) {
+			this.pos++;
+			const children = this.parseUntil(char);
+			return children ? { type: 'InlineStyle', style, children } : null;
+		}
+
+		if (char === '{') {
+			const match = this.matchAt(COLOR_OPENER, this.pos)!;
+			this.pos += match[0].length;
+			const children = this.parseUntil('}');
+			return children ? { type: 'InlineColor', color: match[1], children } : null;
+		}
+
+		if (char === '[') {
+			this.pos++;
+			const children = this.parseUntil(']');
+			const target = children && this.matchAt(LINK_TARGET, this.pos);
+			if (!target) {
+				return null;
+			}
+			this.pos += target[0].length;
+			return { type: 'InlineLink', href: target[1], children };
+		}
+
+		if (char === ':') {
+			const match = this.matchAt(EMOJI_CODE, this.pos)!;
+			this.pos += match[0].length;
+			return { type: 'InlineEmoji', name: match[1], emoji: EMOJI[match[1]] };
+		}
+
+		return null;
+	}
+
+	/**
+	 * Find where the markup starting at a position ends, the same way
+	 * parseOpener reads it (-1 if there's none, or it never closes)
+	 */
+	private markupEnd(start: number): number {
+		const known = this.markupEnds.get(start);
+		if (known !== undefined) {
+			return known;
+		}
+
+		const char = this.text[start];
+		let end = -1;
+		if (STYLE_MARKERS[char]) {
+			if (this.isStyleOpener(char, start)) {
+				end = this.scanEnd(start + 1, char);
+			}
+		} else if (char === '{') {
+			const match = this.matchAt(COLOR_OPENER, start);
+			if (match) {
+				end = this.scanEnd(start + match[0].length, '}');
+			}
+		} else if (char === '[') {
+			const close = this.scanEnd(start + 1, ']');
+			const target = close === -1 ? null : this.matchAt(LINK_TARGET, close);
+			if (target) {
+				end = close + target[0].length;
+			}
+		} else if (char === ':') {
+			const match = this.matchAt(EMOJI_CODE, start);
+			if (match && Object.hasOwn(EMOJI, match[1])) {
+				end = start + match[0].length;
+			}
+		}
+
+		this.markupEnds.set(start, end);
+		return end;
+	}
+
+	/**
+	 * Find where parseUntil(closer) from a position would stop: just after
+	 * the closer, or -1 if it never comes. Looking from any position passed
+	 * on the way gives the same answer, so each one is remembered.
+	 */
+	private scanEnd(start: number, closer: string): number {
+		let known = this.scanEnds.get(closer);
+		if (!known) {
+			known = new Map();
+			this.scanEnds.set(closer, known);
+		}
+
+		const passed: number[] = [];
+		let pos = start;
+		let end = -1;
+		while (pos < this.text.length) {
+			const before = known.get(pos);
+			if (before !== undefined) {
+				end = before;
+				break;
+			}
+			passed.push(pos);
+
+			if (this.isCloser(closer, pos)) {
+				end = pos + 1;
+				break;
+			}
+			if (isEscapeAt(this.text, pos)) {
+				pos += 2;
+				continue;
+			}
+			const markup = this.markupEnd(pos);
+			pos = markup === -1 ? pos + 1 : markup;
+		}
+
+		for (const position of passed) {
+			known.set(position, end);
+		}
+		return end;
+	}
+
+	/**
+	 * A style marker opens at the start of a word, right before some text
+	 */
+	private isStyleOpener(marker: string, pos: number): boolean {
+		const before = this.text[pos - 1] ?? ' ';
+		const after = this.text[pos + 1] ?? ' ';
+		return !isWordChar(before) && !/\s/.test(after) && after !== marker;
+	}
+
+	/**
+	 * Check if the character at a position closes what's being parsed: ] and }
+	 * always do, a style marker only at the end of a word
+	 */
+	private isCloser(closer: string, pos: number): boolean {
+		if (this.text[pos] !== closer) {
+			return false;
+		}
+		if (!STYLE_MARKERS[closer]) {
+			return true;
+		}
+		const before = this.text[pos - 1] ?? ' ';
+		const after = this.text[pos + 1] ?? ' ';
+		return !/\s/.test(before) && !isWordChar(after);
+	}
+
+	/**
+	 * Match a sticky pattern at a position
+	 */
+	private matchAt(pattern: RegExp, pos: number): RegExpExecArray | null {
+		pattern.lastIndex = pos;
+		return pattern.exec(this.text);
+	}
+}
+
+/**
+ * Check if a character is part of a word (so markers next to it don't count)
+ */
+function isWordChar(char: string): boolean {
+	return /[\p{L}\p{N}]/u.test(char);
+}
@@ -3,15 +3,43 @@
  *
  * This lexer converts CTIW source code into tokens for the parser.
  * It provides kid-friendly error messages and tracks line/column positions.
+ *
+ * A line can start with a line number (10 =text=Hi=). After it and any
+ * indentation dots, a line that starts with = is a statement and is scanned
+ * with the statement grammar:
+ *
+ *   =name=content= attr=value= id:value=
+ *   ==text==content== attr=value=
+ *   ==content==
+ *   =(special)=
+ *
+ * A text statement without content (==text== or =text=, maybe with
+ * attributes) starts a multi-line text block when a later line holds just
+ * the closing == or =. Each line in between is a TEXT_LINE token.
+ *
+ * Content and attribute values are free text, so they never produce errors.
+ * A line that starts with // is a comment, and so is a block from /* to
+ * the next star-slash (which can span lines). Anything else is scanned
+ * token by token.
  */
 
+import { matchMarker } from './markers';
+import { isEscapeAt, findClosingQuote } from './escapes';
+import { DiagnosticCode } from './diagnostics';
+
+// The line that ends a text block: just = or == (after any line number and dots)
+const TEXT_BLOCK_CLOSER = /^\s*(?:\d+[ \t]+)?\.*[ \t]*==?\s*$/;
+
+// A line that starts a statement or marker, like =title=Hi=, ==Hello== or ==CTIW==
+const STATEMENT_LINE = /^\s*(?:\d+[ \t]+)?\.*[ \t]*==?[A-Za-z(]/;
+
 /**
  * Token types for the CTIW language
  */
 export enum TokenType {
 	// Document markers
-	CTIW_START = 'CTIW_START', // ==CTIW==
-	CTIW_END = 'CTIW_END', // ==CTIW==
+	CTIW_START = 'CTIW_START', // =CTIW= or ==CTIW==
+	CTIW_END = 'CTIW_END', // =CTIW= or ==CTIW==
 
 	// Double equals for text elements
 	DOUBLE_EQUALS = 'DOUBLE_EQUALS', // ==
@@ -23,6 +51,15 @@ export enum TokenType {
 	LPAREN = 'LPAREN', // (
 	RPAREN = 'RPAREN', // )
 
+	// Comments (// to the end of the line, or a /* */ block)
+	COMMENT = 'COMMENT',
+
+	// Optional number at the start of a line (10 =text=Hi=)
+	LINE_NUMBER = 'LINE_NUMBER',
+
+	// One line inside a multi-line text block
+	TEXT_LINE = 'TEXT_LINE',
+
 	// Values
 	IDENTIFIER = 'IDENTIFIER', // names like title, divide, button
 	NUMBER = 'NUMBER', // numeric values
@@ -48,6 +85,7 @@ export interface Token {
  * Represents a lexer error with position information
  */
 export interface LexerError {
+	code: DiagnosticCode;
 	message: string;
 	line: number;
 	column: number;
@@ -67,16 +105,16 @@ export class Lexer {
 	private tokens: Token[] = [];
 	private errors: LexerError[] = [];
 
-	// Track context for string parsing
-	// This is set true only after the pattern: EQUALS, IDENTIFIER, EQUALS
-	// (the primary element/property pattern like =title= or =divide=)
-	// It is NOT set after attribute patterns like color= or id:
-	private inValueContext: boolean = false;
-
 	// Track if we're at the start of a statement (after newline/dots or at beginning)
-	// This helps distinguish =element= from attr= patterns
+	// An = here starts a statement, which is scanned with its own rules
 	private atStatementStart: boolean = true;
 
+	// The first marker is the document start, every later one is an end
+	private seenStart: boolean = false;
+
+	// Whether we're inside a multi-line text block (until its closing line)
+	private inTextBlock: boolean = false;
+
 	constructor(source: string) {
 		this.source = source;
 	}
@@ -90,8 +128,9 @@ export class Lexer {
 		this.pos = 0;
 		this.line = 1;
 		this.column = 1;
-		this.inValueContext = false;
 		this.atStatementStart = true;
+		this.seenStart = false;
+		this.inTextBlock = false;
 
 		while (!this.isAtEndInternal()) {
 			this.scanToken();
@@ -160,6 +199,16 @@ export class Lexer {
 		return this.pos >= this.source.length;
 	}
 
+	/**
+	 * Check if we've reached the end of the current line (or the source)
+	 */
+	private isAtLineEnd(): boolean {
+		const char = this.current();
+		return (
+			this.isAtEndInternal() || char === '\n' || (char === '\r' && this.lookAhead(1) === '\n')
+		);
+	}
+
 	/**
 	 * Get current character
 	 */
@@ -225,8 +274,9 @@ export class Lexer {
 	/**
 	 * Add an error with a kid-friendly message
 	 */
-	private addError(message: string): void {
+	private addError(code: DiagnosticCode, message: string): void {
 		this.errors.push({
+			code,
 			message,
 			line: this.line,
 			column: this.column
@@ -254,6 +304,11 @@ export class Lexer {
 	 * Scan and emit the next token
 	 */
 	private scanToken(): void {
+		// Lines of a text block are taken whole, until the closing line
+		if (this.inTextBlock && this.isFirstOnLine() && this.scanTextLine()) {
+			return;
+		}
+
 		this.skipWhitespace();
 
 		if (this.isAtEndInternal()) {
@@ -263,22 +318,37 @@ export class Lexer {
 		const startColumn = this.column;
 		const char = this.current();
 
-		// Check for CTIW markers first (both start and end are ==CTIW==)
-		if (this.match('==CTIW==')) {
-			this.consume('==CTIW==');
-			// Determine if this is start or end based on context
-			const hasStart = this.tokens.some((t) => t.type === TokenType.CTIW_START);
-			this.addToken(hasStart ? TokenType.CTIW_END : TokenType.CTIW_START, '==CTIW==', startColumn);
-			this.inValueContext = false;
+		// A number first on a line and followed by a space is a line number
+		if (this.isDigit(char) && this.isFirstOnLine() && this.scanLineNumber()) {
+			return;
+		}
+
+		// Check for CTIW markers first (=CTIW= or ==CTIW== for both start and end)
+		const marker = matchMarker(this.source, this.pos);
+		if (marker) {
+			this.consume(marker);
+			this.addToken(this.seenStart ? TokenType.CTIW_END : TokenType.CTIW_START, marker, startColumn);
+			this.seenStart = true;
 			this.atStatementStart = false;
 			return;
 		}
 
+		// Comments also start at the beginning of a line
+		if (this.atStatementStart && char === '/' && (this.lookAhead(1) === '/' || this.lookAhead(1) === '*')) {
+			this.scanComment();
+			return;
+		}
+
+		// An = at the start of a line begins a statement
+		if (char === '=' && this.atStatementStart) {
+			this.scanStatement();
+			return;
+		}
+
 		// Check for double equals (text element marker)
-		if (this.match('==') && !this.match('==CTIW==')) {
+		if (this.match('==')) {
 			this.consume('==');
 			this.addToken(TokenType.DOUBLE_EQUALS, '==', startColumn);
-			this.inValueContext = false;
 			this.atStatementStart = false;
 			return;
 		}
@@ -288,22 +358,18 @@ export class Lexer {
 			case '=':
 				this.advance();
 				this.addToken(TokenType.EQUALS, '=', startColumn);
-				// Track context: check if this is the PRIMARY pattern =identifier=
-				this.updateValueContext();
+				this.atStatementStart = false;
 				return;
 
 			case ':':
 				this.advance();
 				this.addToken(TokenType.COLON, ':', startColumn);
-				// After colon (attribute pattern like id:xxx), we're NOT in value context
-				this.inValueContext = false;
 				this.atStatementStart = false;
 				return;
 
 			case '.':
 				this.advance();
 				this.addToken(TokenType.DOT, '.', startColumn);
-				this.inValueContext = false;
 				// Dots are indentation, so we're still at "statement start"
 				// (the actual element/property comes after dots)
 				return;
@@ -311,14 +377,12 @@ export class Lexer {
 			case '(':
 				this.advance();
 				this.addToken(TokenType.LPAREN, '(', startColumn);
-				this.inValueContext = false;
 				this.atStatementStart = false;
 				return;
 
 			case ')':
 				this.advance();
 				this.addToken(TokenType.RPAREN, ')', startColumn);
-				this.inValueContext = false;
 				this.atStatementStart = false;
 				return;
 
@@ -327,16 +391,11 @@ export class Lexer {
 				this.addToken(TokenType.NEWLINE, '\n', startColumn);
 				this.line++;
 				this.column = 1;
-				this.inValueContext = false;
 				this.atStatementStart = true; // New line = new statement
 				return;
 		}
 
-		// Check if we should scan a string (content between = delimiters)
-		if (this.shouldScanString()) {
-			this.scanString(startColumn);
-			return;
-		}
+		this.atStatementStart = false;
 
 		// Alphanumeric tokens (identifier, number, hex color)
 		if (this.isAlpha(char)) {
@@ -350,233 +409,447 @@ export class Lexer {
 		}
 
 		// Unknown character - add friendly error and skip
-		this.addError(`Oops! I found a character I don't understand: '${char}'. Try using letters, numbers, dots, or equals signs!`);
+		this.addError(DiagnosticCode.UnknownCharacter, `Oops! I found a character I don't understand: '${char}'. Try using letters, numbers, dots, or equals signs!`);
 		this.advance();
 	}
 
 	/**
-	 * Update context tracking for value parsing
-	 *
-	 * We enter "value context" only after the PRIMARY pattern: EQUALS, IDENTIFIER, EQUALS
-	 * This is the pattern for element/property definitions like =title= or =divide=
-	 *
-	 * CRITICAL: This pattern only applies when the opening EQUALS was at the start
-	 * of a statement. Attribute patterns like color= should NOT trigger value context.
-	 */
-	private updateValueContext(): void {
-		// Check for the pattern: EQUALS, IDENTIFIER, EQUALS (current)
-		// tokens[-1] is the EQUALS we just added
-		// tokens[-2] should be IDENTIFIER
-		// tokens[-3] should be EQUALS (the opening =)
-		if (this.tokens.length >= 3) {
-			const curr = this.tokens[this.tokens.length - 1]; // EQUALS (just added)
-			const prev = this.tokens[this.tokens.length - 2]; // should be IDENTIFIER
-			const prevPrev = this.tokens[this.tokens.length - 3]; // should be EQUALS
-
-			if (
-				curr.type === TokenType.EQUALS &&
-				prev.type === TokenType.IDENTIFIER &&
-				prevPrev.type === TokenType.EQUALS
-			) {
-				// Check if the opening EQUALS was at statement start
-				// We need to look at what came before prevPrev
-				if (this.tokens.length === 3) {
-					// =identifier= at the very start - this is primary pattern
-					this.inValueContext = true;
-					this.atStatementStart = false;
-					return;
-				}
+	 * Check if no token has been emitted on the current line yet
+	 */
+	private isFirstOnLine(): boolean {
+		const last = this.tokens[this.tokens.length - 1];
+		return last === undefined || last.type === TokenType.NEWLINE;
+	}
 
-				// Check what's before the opening =
-				const beforeOpening = this.tokens[this.tokens.length - 4];
-				if (
-					beforeOpening.type === TokenType.NEWLINE ||
-					beforeOpening.type === TokenType.DOT ||
-					beforeOpening.type === TokenType.CTIW_START
-				) {
-					// Opening = was at statement start - this is primary pattern
-					this.inValueContext = true;
-					this.atStatementStart = false;
-					return;
-				}
+	/**
+	 * Scan a line number like the 10 in "10 =text=Hi=".
+	 * Returns false (consuming nothing) if the digits aren't followed by a space.
+	 */
+	private scanLineNumber(): boolean {
+		let end = this.pos;
+		while (this.isDigit(this.source[end] ?? '')) {
+			end++;
+		}
+		if (this.source[end] !== ' ' && this.source[end] !== '\t') {
+			return false;
+		}
+
+		const startColumn = this.column;
+		const value = this.source.slice(this.pos, end);
+		this.consume(value);
+		this.addToken(TokenType.LINE_NUMBER, value, startColumn);
+		// The statement (or dots) still comes after the number
+		this.atStatementStart = true;
+		return true;
+	}
 
-				// Otherwise this is an attribute pattern like color=
+	/**
+	 * Scan a comment: // runs to the end of the line, and a /* block runs to
+	 * its closing star-slash, across lines if needed. The token's value is
+	 * the comment's source text, markers included.
+	 */
+	private scanComment(): void {
+		const start = this.pos;
+		const startLine = this.line;
+		const startColumn = this.column;
+		const isBlock = this.lookAhead(1) === '*';
+
+		if (isBlock) {
+			this.consume('/*');
+			while (!this.isAtEndInternal() && !this.match('*/')) {
+				if (this.advance() === '\n') {
+					this.line++;
+					this.column = 1;
+				}
+			}
+			if (this.isAtEndInternal()) {
+				this.errors.push({
+					code: DiagnosticCode.UnclosedComment,
+					message: `This comment never ends. Add */ where your note stops!`,
+					line: startLine,
+					column: startColumn
+				});
+			} else {
+				this.consume('*/');
+			}
+		} else {
+			while (!this.isAtLineEnd()) {
+				this.advance();
 			}
 		}
-		this.inValueContext = false;
-		this.atStatementStart = false;
+
+		this.tokens.push({
+			type: TokenType.COMMENT,
+			value: this.source.slice(start, this.pos),
+			line: startLine,
+			column: startColumn
+		});
+		// A statement can follow a block comment on the same line
+		this.atStatementStart = isBlock;
 	}
 
 	/**
-	 * Determine if we should scan a string value
+	 * Scan a statement: everything after the opening = up to the end of the line
 	 *
-	 * We only scan strings when in "value context" (after =identifier= pattern)
-	 * AND when the content doesn't look like it starts with attributes.
+	 * - ==text==content== and ==divide==... use DOUBLE_EQUALS around the name
+	 * - ==content== is shorthand for ==text==content==
+	 * - =(time)= is left to the regular token scanner
+	 * - =name=content= is everything else
 	 */
-	private shouldScanString(): boolean {
-		if (!this.inValueContext) {
-			return false;
+	private scanStatement(): void {
+		this.atStatementStart = false;
+		const startColumn = this.column;
+
+		if (this.match('==')) {
+			this.consume('==');
+			this.addToken(TokenType.DOUBLE_EQUALS, '==', startColumn);
+
+			if (this.matchKeyword('text')) {
+				this.scanKeyword('text');
+				const startsBlock = this.startsTextBlock();
+				this.scanContent('==', false);
+				this.inTextBlock = startsBlock;
+			} else if (this.matchKeyword('divide')) {
+				this.scanKeyword('divide');
+				this.scanContent('=', false);
+			} else {
+				// Shorthand text is all content, so leading spaces are just spaces
+				this.scanContent('==', true);
+			}
+			return;
 		}
 
-		const char = this.current();
+		this.advance();
+		this.addToken(TokenType.EQUALS, '=', startColumn);
 
-		// If we immediately see =, there's no value (empty value case like =line=)
-		if (char === '=') {
-			return false;
+		// Special elements like =(time)= use plain tokens
+		if (this.current() === '(') {
+			return;
+		}
+
+		this.skipWhitespace();
+		if (!this.isAlphaNumericOrHyphen(this.current())) {
+			return;
+		}
+
+		const nameColumn = this.column;
+		let name = '';
+		while (!this.isAtLineEnd() && this.isAlphaNumericOrHyphen(this.current())) {
+			name += this.advance();
+		}
+		this.addToken(this.isAlpha(name[0]) ? TokenType.IDENTIFIER : TokenType.NUMBER, name, nameColumn);
+
+		// Without the = after the name the rest of the line is scanned as plain tokens
+		this.skipWhitespace();
+		if (this.current() !== '=') {
+			return;
 		}
 
-		// If we immediately see newline, no value
-		if (char === '\n') {
+		const equalsColumn = this.column;
+		this.advance();
+		this.addToken(TokenType.EQUALS, '=', equalsColumn);
+		const startsBlock = name.toLowerCase() === 'text' && this.startsTextBlock();
+		this.scanContent('=', false);
+		this.inTextBlock = startsBlock;
+	}
+
+	/**
+	 * Check if a text statement starts a multi-line block: it has no content
+	 * here, and a later line (before the next statement, another text block
+	 * or the footer) holds just the closing == or =
+	 */
+	private startsTextBlock(): boolean {
+		if (!this.isAtLineEnd() && !this.isWhitespace(this.current())) {
 			return false;
 		}
 
-		// If the first thing we see is an identifier, check if it's followed by : or =
-		// If so, it's an attribute pattern, not a value
-		if (this.isAlpha(char)) {
-			return !this.looksLikeAttribute();
+		const lineEnd = this.source.indexOf('\n', this.pos);
+		if (lineEnd === -1) {
+			return false;
 		}
 
-		// If we see something else (like a digit or other char), it could be a value
-		// Look for a closing = on this line
-		let i = this.pos;
-		while (i < this.source.length) {
-			const c = this.source[i];
-			if (c === '=') {
+		for (const line of this.source.slice(lineEnd + 1).split('\n')) {
+			if (TEXT_BLOCK_CLOSER.test(line)) {
 				return true;
 			}
-			if (c === '\n') {
+			if (STATEMENT_LINE.test(line)) {
 				return false;
 			}
-			i++;
 		}
-
 		return false;
 	}
 
 	/**
-	 * Check if current position looks like an attribute pattern
-	 * (identifier followed by : or =VALUE=)
-	 *
-	 * The key distinction from a value is:
-	 * - Attribute: identifier=VALUE= or identifier:VALUE (has content after the = or :)
-	 * - Value: VALUE= (the = is just the closing delimiter)
+	 * Scan one whole line of a text block as a TEXT_LINE token.
+	 * Returns false at the block's closing line, which is scanned as usual.
 	 */
-	private looksLikeAttribute(): boolean {
-		let i = this.pos;
+	private scanTextLine(): boolean {
+		const lineEnd = this.source.indexOf('\n', this.pos);
+		const text = this.source.slice(this.pos, lineEnd === -1 ? undefined : lineEnd).replace(/\r$/, '');
+		const trimmed = text.trim();
 
-		// Scan the identifier
-		while (i < this.source.length && this.isAlphaNumericOrHyphen(this.source[i])) {
-			i++;
+		if (TEXT_BLOCK_CLOSER.test(text)) {
+			this.inTextBlock = false;
+			return false;
 		}
 
-		// Check what follows
-		if (i < this.source.length) {
-			const next = this.source[i];
+		// The token starts at the first character that isn't a space
+		const indent = text.length - text.trimStart().length;
+		for (let i = 0; i < indent; i++) {
+			this.advance();
+		}
+		const startColumn = this.column;
+		this.consume(trimmed);
+		this.addToken(TokenType.TEXT_LINE, trimmed, startColumn);
+		while (!this.isAtLineEnd()) {
+			this.advance();
+		}
+		return true;
+	}
 
-			if (next === ':') {
-				// identifier:xxx is always an attribute pattern
-				return true;
-			}
+	/**
+	 * Check for a keyword directly followed by == (like text== in ==text==)
+	 */
+	private matchKeyword(keyword: string): boolean {
+		const word = this.source.slice(this.pos, this.pos + keyword.length);
+		if (word.toLowerCase() !== keyword) {
+			return false;
+		}
+		const after = this.pos + keyword.length;
+		return this.source[after] === '=' && this.source[after + 1] === '=';
+	}
 
-			if (next === '=') {
-				// identifier= could be either:
-				// - An attribute like color=FF0000=
-				// - A value like Hello=
-				//
-				// Check if there's content after the = (and before another = or newline)
-				let j = i + 1;
-
-				// Skip whitespace
-				while (j < this.source.length && (this.source[j] === ' ' || this.source[j] === '\t')) {
-					j++;
-				}
+	/**
+	 * Consume a keyword matched by matchKeyword() and the == after it
+	 */
+	private scanKeyword(keyword: string): void {
+		const startColumn = this.column;
+		let value = '';
+		for (let i = 0; i < keyword.length; i++) {
+			value += this.advance();
+		}
+		this.addToken(TokenType.IDENTIFIER, value, startColumn);
 
-				// If the next thing is =, newline, or end, this is a VALUE (closing =)
-				if (j >= this.source.length || this.source[j] === '=' || this.source[j] === '\n') {
-					return false;
+		const equalsColumn = this.column;
+		this.consume('==');
+		this.addToken(TokenType.DOUBLE_EQUALS, '==', equalsColumn);
+	}
+
+	/**
+	 * Scan the content after an element name, then any attributes
+	 *
+	 * Content has to start right after the name's delimiter: =divide= id:main=
+	 * (with a space) has no content, just attributes. Content ends at the
+	 * closing delimiter. For single equals that is an = followed by a space or
+	 * the end of the line, so =text=2+2=4= keeps its inner =. An escaped \=
+	 * never closes, and neither does anything inside "quotes". The STRING
+	 * token keeps the text as written; the parser unescapes it.
+	 */
+	private scanContent(closer: '=' | '==', allowLeadingSpace: boolean): void {
+		if (allowLeadingSpace) {
+			this.skipWhitespace();
+		}
+
+		if (!this.isAtLineEnd() && !this.isWhitespace(this.current())) {
+			const startColumn = this.column;
+			let value = this.current() === '"' ? this.scanQuoted() : '';
+			let closed = false;
+
+			// Text up to here is quoted or escaped, so it can't be trimmed or closed
+			let protectedEnd = value.length;
+
+			while (!this.isAtLineEnd()) {
+				if (isEscapeAt(this.source, this.pos)) {
+					value += this.advance() + this.advance();
+					protectedEnd = value.length;
+					continue;
+				}
+				if (closer === '==' ? this.match('==') : this.current() === '=' && this.isDelimiterEnd(1)) {
+					closed = true;
+					break;
 				}
+				value += this.advance();
+			}
 
-				// There's content after the =, so this is an attribute
-				return true;
+			let end = value.length;
+			while (end > protectedEnd && this.isWhitespace(value[end - 1])) {
+				end--;
+			}
+
+			// Be forgiving about ==text==Hello= (a single = closing double equals)
+			let singleCloser = false;
+			if (!closed && closer === '==' && end > protectedEnd && value[end - 1] === '=') {
+				value = value.slice(0, end - 1);
+				end = value.length;
+				singleCloser = true;
+			}
+
+			const content = value.slice(0, end).trimStart();
+			if (content.length > 0) {
+				this.addToken(TokenType.STRING, content, startColumn);
+			}
+
+			if (closed) {
+				const closerColumn = this.column;
+				this.consume(closer);
+				this.addToken(
+					closer === '==' ? TokenType.DOUBLE_EQUALS : TokenType.EQUALS,
+					closer,
+					closerColumn
+				);
+			} else if (singleCloser) {
+				this.addToken(TokenType.EQUALS, '=', startColumn + value.length);
 			}
 		}
 
-		return false;
+		this.scanAttributes();
 	}
 
 	/**
-	 * Scan a string value (text content between delimiters)
+	 * Scan space-separated attributes like id:main= or color=FF0000=
 	 *
-	 * Reads content until we hit:
-	 * - The closing = delimiter
-	 * - A space followed by a REAL attribute pattern (id:xxx or attr=VALUE=)
-	 * - End of line
+	 * The value is everything up to the next space, minus the closing =, so
+	 * values like https://example.com/?a=b= or rotate(45deg)= work as-is.
+	 * A value in "quotes" can have spaces, and an escaped \= at the end of a
+	 * value is part of it rather than its closer.
 	 */
-	private scanString(startColumn: number): void {
-		let value = '';
+	private scanAttributes(): void {
+		while (true) {
+			this.skipWhitespace();
+			if (this.isAtLineEnd()) {
+				return;
+			}
 
-		while (!this.isAtEndInternal() && this.current() !== '\n') {
-			const char = this.current();
+			const startColumn = this.column;
 
-			// Check for closing = that ends the value
-			if (char === '=') {
-				break;
+			// A stray closing = (or ==)
+			if (this.current() === '=') {
+				this.scanClosers();
+				continue;
 			}
 
-			// Check for attribute pattern after space
-			if (char === ' ' || char === '\t') {
-				// Look ahead to see if this is the start of a REAL attribute
-				let j = this.pos + 1;
-				while (j < this.source.length && (this.source[j] === ' ' || this.source[j] === '\t')) {
-					j++;
-				}
-				if (j < this.source.length && this.isAlpha(this.source[j])) {
-					// Scan potential identifier
-					let k = j;
-					while (k < this.source.length && this.isAlphaNumericOrHyphen(this.source[k])) {
-						k++;
-					}
-					// Check if followed by : (always an attribute) or = with content after
-					if (k < this.source.length) {
-						if (this.source[k] === ':') {
-							// id:xxx pattern - definitely an attribute
-							break;
-						}
-						if (this.source[k] === '=') {
-							// identifier= could be attr=VALUE= or just VALUE=
-							// Check if there's content after the =
-							let m = k + 1;
-							while (
-								m < this.source.length &&
-								(this.source[m] === ' ' || this.source[m] === '\t')
-							) {
-								m++;
-							}
-							// If there's content (not = or newline or end), it's an attribute
-							if (
-								m < this.source.length &&
-								this.source[m] !== '=' &&
-								this.source[m] !== '\n'
-							) {
-								break;
-							}
-							// Otherwise, this is just part of the value (like "World=")
-						}
-					}
+			let name = '';
+			while (
+				!this.isAtLineEnd() &&
+				!this.isWhitespace(this.current()) &&
+				this.current() !== ':' &&
+				this.current() !== '='
+			) {
+				name += this.advance();
+			}
+			if (name) {
+				this.addToken(
+					this.isIdentifier(name) ? TokenType.IDENTIFIER : TokenType.STRING,
+					name,
+					startColumn
+				);
+			}
+
+			if (this.current() !== ':' && this.current() !== '=') {
+				continue;
+			}
+
+			const separatorColumn = this.column;
+			const separator = this.advance();
+			this.addToken(separator === ':' ? TokenType.COLON : TokenType.EQUALS, separator, separatorColumn);
+
+			const valueColumn = this.column;
+			let value = this.current() === '"' ? this.scanQuoted() : '';
+			let protectedEnd = value.length;
+			while (!this.isAtLineEnd() && !this.isWhitespace(this.current())) {
+				if (isEscapeAt(this.source, this.pos)) {
+					value += this.advance() + this.advance();
+					protectedEnd = value.length;
+					continue;
 				}
+				value += this.advance();
 			}
 
-			value += this.advance();
+			let closers = 0;
+			while (value.length - closers > protectedEnd && value[value.length - closers - 1] === '=') {
+				closers++;
+			}
+			value = value.slice(0, value.length - closers);
+			if (value) {
+				this.addToken(this.classifyValue(value), value, valueColumn);
+			}
+			this.addClosers(closers, valueColumn + value.length);
 		}
+	}
 
-		// Trim trailing whitespace
-		value = value.trim();
+	/**
+	 * Consume a "quoted" value, quotes included. A quote that never ends is
+	 * reported, and only the opening quote is consumed.
+	 */
+	private scanQuoted(): string {
+		const close = findClosingQuote(this.source, this.pos);
+		if (close === -1) {
+			this.addError(DiagnosticCode.UnclosedQuote, `This quote never ends. Add a " where your words stop!`);
+			return this.advance();
+		}
 
-		if (value.length > 0) {
-			this.addToken(TokenType.STRING, value, startColumn);
+		let text = '';
+		while (this.pos <= close) {
+			text += this.advance();
 		}
+		return text;
+	}
 
-		this.inValueContext = false;
+	/**
+	 * Consume a run of = signs as closing delimiters
+	 */
+	private scanClosers(): void {
+		const startColumn = this.column;
+		let count = 0;
+		while (this.current() === '=') {
+			this.advance();
+			count++;
+		}
+		this.addClosers(count, startColumn);
+	}
+
+	/**
+	 * Emit closing delimiters for a run of = signs, pairing them up as ==
+	 */
+	private addClosers(count: number, startColumn: number): void {
+		let column = startColumn;
+		while (count >= 2) {
+			this.addToken(TokenType.DOUBLE_EQUALS, '==', column);
+			column += 2;
+			count -= 2;
+		}
+		if (count === 1) {
+			this.addToken(TokenType.EQUALS, '=', column);
+		}
+	}
+
+	/**
+	 * Pick the token type for an attribute value
+	 */
+	private classifyValue(value: string): TokenType {
+		if (this.isValidHexColor(value)) {
+			return TokenType.HEX_COLOR;
+		}
+		if (/^[0-9]+$/.test(value)) {
+			return TokenType.NUMBER;
+		}
+		if (this.isIdentifier(value)) {
+			return TokenType.IDENTIFIER;
+		}
+		return TokenType.STRING;
+	}
+
+	/**
+	 * Check if the character n places ahead ends a delimiter (space or end of line)
+	 */
+	private isDelimiterEnd(n: number): boolean {
+		const char = this.lookAhead(n);
+		return (
+			char === '\0' ||
+			char === '\n' ||
+			char === '\r' ||
+			this.isWhitespace(char)
+		);
 	}
 
 	/**
@@ -595,8 +868,6 @@ export class Lexer {
 		} else {
 			this.addToken(TokenType.IDENTIFIER, value, startColumn);
 		}
-
-		this.inValueContext = false;
 	}
 
 	/**
@@ -616,8 +887,6 @@ export class Lexer {
 		} else {
 			this.addToken(TokenType.NUMBER, value, startColumn);
 		}
-
-		this.inValueContext = false;
 	}
 
 	/**
@@ -628,6 +897,20 @@ export class Lexer {
 		return /^[0-9A-Fa-f]{6}$/.test(str);
 	}
 
+	/**
+	 * Check if a string is a valid identifier (letter, then letters/digits/-/_)
+	 */
+	private isIdentifier(str: string): boolean {
+		return /^[A-Za-z][A-Za-z0-9_-]*$/.test(str);
+	}
+
+	/**
+	 * Check if character is a space or tab
+	 */
+	private isWhitespace(char: string): boolean {
+		return char === ' ' || char === '\t';
+	}
+
 	/**
 	 * Check if character is a letter
 	 */
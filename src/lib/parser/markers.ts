@@ -0,0 +1,101 @@
+/**
+ * CTIW Document Markers
+ *
+ * Recognizes the header and footer lines that wrap every CTIW document.
+ * Two spellings are in use, and both are accepted for the header and footer:
+ * - `=CTIW=` (the language spec and the starter projects)
+ * - `==CTIW==`
+ *
+ * The lexer, parser, editor and share links all use this module, so they
+ * always agree on what counts as a marker.
+ *
+ * @module parser/markers
+ */
+
+/**
+ * Which header a document starts with:
+ * - 'single': `=CTIW=`
+ * - 'double': `==CTIW==`
+ */
+export type CTIWDialect = 'single' | 'double';
+
+/** The marker text for each dialect */
+export const DIALECT_MARKERS: Readonly<Record<CTIWDialect, string>> = {
+	single: '=CTIW=',
+	double: '==CTIW=='
+};
+
+// Longest first, so ==CTIW== isn't read as =CTIW= and a stray =
+const MARKER_PATTERN = /==CTIW==|=CTIW=/y;
+
+// A line number in front of a line, like "10 =CTIW="
+const LINE_NUMBER_PREFIX = /^\s*\d+[ \t]+/;
+
+/**
+ * Match a document marker starting at a position in the text.
+ * @returns The marker text, or null if there isn't one there
+ */
+export function matchMarker(text: string, from: number = 0): string | null {
+	MARKER_PATTERN.lastIndex = from;
+	return MARKER_PATTERN.exec(text)?.[0] ?? null;
+}
+
+/**
+ * Get the dialect a marker belongs to
+ */
+export function markerDialect(marker: string): CTIWDialect {
+	return marker === DIALECT_MARKERS.single ? 'single' : 'double';
+}
+
+/**
+ * Check if a line is a document marker (whitespace around it, and a line
+ * number in front of it, are allowed)
+ */
+export function isMarkerLine(line: string): boolean {
+	const trimmed = line.replace(LINE_NUMBER_PREFIX, '').trim();
+	return trimmed !== '' && matchMarker(trimmed) === trimmed;
+}
+
+/**
+ * Get the dialect of a document from its header
+ * @returns The dialect, or null if the document doesn't start with a marker
+ */
+export function detectDialect(source: string): CTIWDialect | null {
+	const first = source.split('\n').find((line) => line.trim() !== '');
+	if (first === undefined || !isMarkerLine(first)) {
+		return null;
+	}
+	return markerDialect(first.replace(LINE_NUMBER_PREFIX, '').trim());
+}
+
+/**
+ * Check if source is a whole document (it starts with a header)
+ */
+export function hasHeader(source: string): boolean {
+	return detectDialect(source) !== null;
+}
+
+/**
+ * Find where the footer line starts
+ * @returns The footer's offset in source, or -1 if there is no footer
+ */
+export function findFooter(source: string): number {
+	let offset = 0;
+	let footer = -1;
+	let seenHeader = false;
+
+	for (const line of source.split('\n')) {
+		if (isMarkerLine(line)) {
+			// The first marker is the header, the last one after it is the footer
+			if (seenHeader) {
+				footer = offset + line.indexOf(line.trim());
+			}
+			seenHeader = true;
+		} else if (line.trim() !== '') {
+			seenHeader = true;
+		}
+		offset += line.length + 1;
+	}
+
+	return footer;
+}
@@ -2,7 +2,8 @@
  * CTIW Parser
  *
  * Parses CTIW source code into an AST (Abstract Syntax Tree).
- * Uses a simple line-based parsing approach suitable for the CTIW language.
+ * Consumes the Lexer's token stream one source line at a time, so the lexer
+ * and parser share a single grammar.
  */
 
 import type {
@@ -10,10 +11,16 @@ import type {
 	ElementNode,
 	PropertyNode,
 	SpecialNode,
+	ErrorNode,
+	CommentNode,
+	ContentLine,
+	PropertyLocation,
+	SourceLocation,
 	CTIWNode,
 	CTIWElementType,
 	DocumentMetadata,
-	ElementProperties
+	ElementProperties,
+	TypedValue
 } from './ast';
 import {
 	createDocument,
@@ -21,50 +28,348 @@ import {
 	createElement,
 	createSpecial,
 	createError,
+	createComment,
 	createLocation,
-	isValidElementType,
-	ELEMENT_TYPES
+	isContainerElement,
+	isElementNode,
+	isValidElementType
 } from './ast';
+import { Lexer, TokenType, type Token, type LexerError } from './lexer';
+import { markerDialect, DIALECT_MARKERS } from './markers';
+import { unescapeValue, unescapeText, unquoteValue } from './escapes';
+import { parseInline, inlineText, hasFormatting } from './inline';
+import { parseValue } from './values';
+import { validateProperties } from './schema';
+import { validateIds } from './ids';
+import { unknownElementWarning } from './elements';
+import {
+	DiagnosticCode,
+	applyFixes,
+	createDiagnostic,
+	lineRange,
+	type Diagnostic,
+	type DiagnosticDetails,
+	type DiagnosticFix,
+	type RelatedLocation,
+	type TextEdit
+} from './diagnostics';
 
-/** Error information for parse errors */
-export interface ParseError {
-	message: string;
-	line: number;
-	column?: number;
-}
+/**
+ * A problem found while parsing
+ * @deprecated Use Diagnostic
+ */
+export type ParseError = Diagnostic;
 
 /** Extended document type that includes errors */
 export interface ParseResult {
 	document: DocumentNode;
-	errors: ParseError[];
+	/** Every problem found: errors, warnings and the rest */
+	errors: Diagnostic[];
 }
 
 /** Document-level properties (go in metadata, not body) */
 const DOC_PROPERTIES: Set<string> = new Set(['language', 'font-size']);
 
+/** Options for parsing */
+export interface ParseOptions {
+	/** Dots per nesting level (detected from the document when left out) */
+	dotsPerLevel?: number;
+}
+
+/** Dots per nesting level when the document doesn't indent anything */
+export const DEFAULT_DOTS_PER_LEVEL = 4;
+
+/** Token types that can be an attribute value */
+const VALUE_TOKENS: Set<TokenType> = new Set([
+	TokenType.IDENTIFIER,
+	TokenType.NUMBER,
+	TokenType.HEX_COLOR,
+	TokenType.STRING
+]);
+
+// The property older documents color backgrounds with (background-color= now)
+const LEGACY_COLOR = 'color';
+
+// Elements whose content isn't shown as text (it's a placeholder or a file
+// name), so it has no inline formatting
+const PLAIN_CONTENT_ELEMENTS: Set<CTIWElementType> = new Set(['password', 'input', 'img']);
+
+/** The tokens of one non-empty source line, with indentation dots removed */
+interface TokenLine {
+	/** Line number (1-indexed) */
+	line: number;
+	/** Line number written in front of the line, if any */
+	lineNumber?: Token;
+	/** Number of leading dots */
+	dots: number;
+	/** Where the dots are (an empty range where they would go when there are none) */
+	dotsLocation: SourceLocation;
+	/** Nesting level from the leading dots */
+	indent: number;
+	/** Statement tokens (no DOT or NEWLINE tokens) */
+	tokens: Token[];
+}
+
+/** A container that is still waiting for its closing =name= */
+interface OpenContainer {
+	/** The container, or an ErrorNode standing in for a broken opener */
+	node: ElementNode | ErrorNode;
+	/** Nesting level of the opening line */
+	indent: number;
+	/** Whether a line has already been told it sits outside this container */
+	dedentReported?: boolean;
+	/** Whether a fix already closes it (so the footer doesn't close it again) */
+	closerSuggested?: boolean;
+}
+
+/** Content after an element name, as written, and where it is */
+interface ParsedContent {
+	raw: string;
+	location: SourceLocation;
+}
+
 /**
  * Parse CTIW source code into an AST
  * @param source The CTIW source code
  * @returns The parsed document AST and any errors
  */
-export function parse(source: string): ParseResult {
-	const parser = new Parser(source);
+export function parse(source: string, options: ParseOptions = {}): ParseResult {
+	const parser = new Parser(source, options);
 	return parser.parse();
 }
 
+/**
+ * Work out how many dots a document uses per nesting level.
+ * Each line with dots right after a line without them is the first line
+ * inside a box, so it shows one level; the most common count among them wins.
+ */
+export function detectDotsPerLevel(source: string): number {
+	const votes = new Map<number, number>();
+	let previousDots = 0;
+	let inBlockComment = false;
+
+	for (const text of source.split('\n')) {
+		// Comments don't count, whatever their dots
+		const statement = text.replace(LINE_PREFIX, '').replace(/^[\s.]*/, '');
+		if (inBlockComment || statement.startsWith('/*')) {
+			inBlockComment = !statement.includes('*/', inBlockComment ? 0 : 2);
+			continue;
+		}
+		if (text.trim() === '' || statement.startsWith('//')) {
+			continue;
+		}
+		const dots = countDots(text);
+		if (dots > 0 && previousDots === 0) {
+			votes.set(dots, (votes.get(dots) ?? 0) + 1);
+		}
+		previousDots = dots;
+	}
+
+	let best = DEFAULT_DOTS_PER_LEVEL;
+	let bestVotes = 0;
+	for (const [dots, count] of votes) {
+		if (count > bestVotes || (count === bestVotes && dots < best)) {
+			best = dots;
+			bestVotes = count;
+		}
+	}
+	return best;
+}
+
+/**
+ * Rewrite the indentation dots so they match the real container structure:
+ * every line gets one level of dots for each box it's inside.
+ */
+export function fixIndentation(source: string, options: ParseOptions = {}): string {
+	const parser = new Parser(source, options);
+	parser.parse();
+
+	const dotsPerLevel = parser.getDotsPerLevel();
+	const depths = parser.getStructureDepths();
+
+	return source
+		.split('\n')
+		.map((text, index) => {
+			const depth = depths.get(index + 1);
+			if (depth === undefined) {
+				return text;
+			}
+			const [lead] = text.match(LINE_PREFIX)!;
+			const [prefix, dots, gap] = text.slice(lead.length).match(/^(\.*)([ \t]*)/)!;
+			// Keep the line number, if there is one
+			const lineNumber = lead.trimStart();
+			const rest = text.slice(lead.length + prefix.length);
+			if (depth === 0) {
+				return lineNumber + rest;
+			}
+			// Keep a space after the dots if the line already had one (.. =text=)
+			return lineNumber + '.'.repeat(depth * dotsPerLevel) + (dots && gap ? ' ' : '') + rest;
+		})
+		.join('\n');
+}
+
+/**
+ * Renumber the lines that have line numbers, counting up from start by step
+ * (10, 20, 30, ... by default). Lines without a number are left alone.
+ */
+export function renumberLines(source: string, options: { start?: number; step?: number } = {}): string {
+	const start = options.start ?? 10;
+	const step = options.step ?? 10;
+	const lines = source.split('\n');
+
+	const numbers = new Lexer(source).tokenize().filter((token) => token.type === TokenType.LINE_NUMBER);
+	numbers.forEach((token, index) => {
+		const text = lines[token.line - 1];
+		const column = token.column - 1;
+		lines[token.line - 1] =
+			text.slice(0, column) + String(start + index * step) + text.slice(column + token.value.length);
+	});
+
+	return lines.join('\n');
+}
+
+/**
+ * Rename the color= properties of older documents to background-color=,
+ * which is what they always did. Everything else is left as it is.
+ */
+export function migrateColors(source: string, options: ParseOptions = {}): string {
+	const lines = source.split('\n');
+
+	const keys: SourceLocation[] = [];
+	const collect = (nodes: CTIWNode[]) => {
+		for (const node of nodes) {
+			if (isElementNode(node)) {
+				const key = node.propertyLocations?.[LEGACY_COLOR]?.key;
+				if (key) {
+					keys.push(key);
+				}
+				collect(node.children);
+			}
+		}
+	};
+	collect(parse(source, options).document.children);
+
+	// Right to left, so the columns of earlier names on a line stay put
+	keys.sort((a, b) => b.start.line - a.start.line || b.start.column - a.start.column);
+	for (const key of keys) {
+		const text = lines[key.start.line - 1];
+		lines[key.start.line - 1] =
+			text.slice(0, key.start.column - 1) + 'background-color' + text.slice(key.end.column - 1);
+	}
+
+	return lines.join('\n');
+}
+
+/** How many rounds of fixes fixEverything makes at most */
+const MAX_FIX_ROUNDS = 10;
+
+/**
+ * Apply every fix the parser suggests. Fixes that touch the same code are
+ * applied one round at a time, parsing again in between, until nothing
+ * is left to fix (or a round doesn't leave fewer problems than before).
+ *
+ * @example
+ * fixEverything('==CTIW==\n=buton=Go=') // '==CTIW==\n=button=Go=\n==CTIW=='
+ */
+export function fixEverything(source: string, options: ParseOptions = {}): string {
+	let fixed = source;
+	let errors = parse(fixed, options).errors;
+	for (let round = 0; round < MAX_FIX_ROUNDS; round++) {
+		const next = applyFixes(fixed, errors);
+		if (next === fixed) {
+			break;
+		}
+		fixed = next;
+
+		// A round that didn't help won't be helped by another one
+		const remaining = parse(fixed, options).errors;
+		if (remaining.length >= errors.length) {
+			break;
+		}
+		errors = remaining;
+	}
+	return fixed;
+}
+
+/** Whitespace and an optional line number at the start of a line */
+const LINE_PREFIX = /^[ \t]*(?:\d+[ \t]+)?/;
+
+/**
+ * Count the indentation dots at the start of a line (after any line number;
+ * spaces around the dots are allowed)
+ */
+function countDots(text: string): number {
+	return text.replace(LINE_PREFIX, '').match(/^(\.*)/)![1].length;
+}
+
+/**
+ * Read content (quotes already off, escapes still in) into an element's text
+ * and, for elements that show it as text, its inline formatting
+ */
+function readContent(
+	elementType: CTIWElementType,
+	text: string
+): Pick<ElementNode, 'content' | 'inline'> {
+	if (PLAIN_CONTENT_ELEMENTS.has(elementType)) {
+		return { content: unescapeText(text) };
+	}
+	const inline = parseInline(text);
+	return hasFormatting(inline) ? { content: inlineText(inline), inline } : { content: inlineText(inline) };
+}
+
+/**
+ * Column just past the end of a token (end columns are exclusive)
+ */
+function tokenEnd(token: Token): number {
+	return token.column + token.value.length;
+}
+
+/**
+ * Container type of an open container (a broken opener keeps the type it tried to open)
+ */
+function containerTypeOf(node: ElementNode | ErrorNode): CTIWElementType | undefined {
+	return isElementNode(node) ? node.elementType : node.containerType;
+}
+
 /**
  * Internal parser class
  */
 class Parser {
-	private lines: string[];
+	private lines: TokenLine[];
+	private sourceLines: string[];
+	private lineCount: number;
+	private dotsPerLevel: number;
+	private lexerErrors: LexerError[];
 	private currentLine: number = 0;
-	private errors: ParseError[] = [];
+	private errors: Diagnostic[] = [];
 	private metadata: DocumentMetadata = {};
 	private body: CTIWNode[] = [];
 
-	constructor(source: string) {
-		// Split into lines, preserving empty lines for line number tracking
-		this.lines = source.split('\n');
+	/** How many boxes each body line is inside, going by the openers and closers */
+	private structureDepths: Map<number, number> = new Map();
+
+	/** Line numbers written so far (number -> source line), to catch repeats */
+	private seenLineNumbers: Map<number, number> = new Map();
+	private lastLineNumber: number | null = null;
+
+	/** Lines the parser looked at, and the ones it reported errors on */
+	private parsedLines: Set<number> = new Set();
+	private errorLines: Set<number> = new Set();
+
+	/** Cursor over the tokens of the statement being parsed */
+	private tokens: Token[] = [];
+	private pos: number = 0;
+	private lineNumber: number = 1;
+
+	constructor(source: string, options: ParseOptions = {}) {
+		const lexer = new Lexer(source);
+		const tokens = lexer.tokenize();
+
+		this.lexerErrors = lexer.getErrors();
+		this.sourceLines = source.split('\n');
+		this.lineCount = this.sourceLines.length;
+		this.dotsPerLevel = Math.max(1, options.dotsPerLevel ?? detectDotsPerLevel(source));
+		this.lines = this.groupLines(tokens);
 	}
 
 	/**
@@ -73,42 +378,156 @@ class Parser {
 	parse(): ParseResult {
 		// Parse header
 		if (!this.parseHeader()) {
-			this.addError("Oops! Your CTIW code needs to start with ==CTIW==");
+			const line = this.lines[0]?.line ?? 1;
+			const marker = this.documentMarker();
+			this.addError(
+				DiagnosticCode.MissingHeader,
+				"Oops! Your CTIW code needs to start with =CTIW= or ==CTIW==",
+				lineRange(line, 1),
+				{ fixes: [{ title: `Add ${marker} at the top`, edits: [this.insertLine(line, marker)] }] }
+			);
 		}
 
 		// Parse body content
 		this.parseBody();
 
 		// Parse footer
+		// A footer added after a comment that never ends would be part of the comment,
+		// so the comment gets closed first (and a footer it hid comes back)
 		if (!this.parseFooter()) {
-			this.addError("Don't forget to end your code with ==CTIW==");
+			const marker = this.documentMarker();
+			this.addError(
+				DiagnosticCode.MissingFooter,
+				`Don't forget to end your code with ${marker}`,
+				lineRange(this.lineCount, 1),
+				this.inUnclosedComment()
+					? {}
+					: { fixes: [{ title: `Add ${marker} at the end`, edits: [this.insertLine(null, marker)] }] }
+			);
 		}
 
 		const document = createDocument(
 			this.body,
 			this.metadata,
-			createLocation(1, 1, this.lines.length, 1)
+			createLocation(1, 1, this.lineCount, 1)
 		);
+		this.errors.push(...validateProperties(document), ...validateIds(document));
 
 		return {
 			document,
-			errors: this.errors
+			errors: this.collectErrors()
 		};
 	}
 
 	/**
-	 * Parse the ==CTIW== header
+	 * Dots per nesting level used for this document
 	 */
-	private parseHeader(): boolean {
-		// Skip empty lines at the start
-		this.skipEmptyLines();
+	getDotsPerLevel(): number {
+		return this.dotsPerLevel;
+	}
 
-		if (this.currentLine >= this.lines.length) {
-			return false;
+	/**
+	 * How many boxes each body line is inside, by line number (after parse())
+	 */
+	getStructureDepths(): Map<number, number> {
+		return this.structureDepths;
+	}
+
+	/**
+	 * Split the token stream into non-empty lines, counting indentation dots.
+	 * A line the lexer couldn't turn into any tokens is kept (with no tokens)
+	 * so it still shows up in the tree as broken.
+	 */
+	private groupLines(tokens: Token[]): TokenLine[] {
+		const lines: TokenLine[] = [];
+		const lexerErrorLines = new Set(this.lexerErrors.map((error) => error.line));
+		let current: Token[] = [];
+
+		for (const token of tokens) {
+			if (token.type !== TokenType.NEWLINE && token.type !== TokenType.EOF) {
+				current.push(token);
+				// A comment ends its line, so a statement after a /* */ block stands on its own
+				if (token.type === TokenType.COMMENT) {
+					lines.push(this.createLine(current));
+					current = [];
+				}
+				continue;
+			}
+
+			if (current.length > 0) {
+				lines.push(this.createLine(current));
+			} else if (lexerErrorLines.has(token.line) && lines[lines.length - 1]?.line !== token.line) {
+				lines.push({ line: token.line, dots: 0, dotsLocation: lineRange(token.line, 1), indent: 0, tokens: [] });
+			}
+			current = [];
+		}
+
+		return lines;
+	}
+
+	/**
+	 * Build a line from its tokens, taking off the line number and indentation dots
+	 */
+	private createLine(tokens: Token[]): TokenLine {
+		const lineNumber = tokens[0].type === TokenType.LINE_NUMBER ? tokens[0] : undefined;
+		const start = lineNumber ? 1 : 0;
+
+		let end = start;
+		while (end < tokens.length && tokens[end].type === TokenType.DOT) {
+			end++;
 		}
+		const dots = end - start;
+		const dotsStart = tokens[start]?.column ?? 1;
+		const dotsEnd = dots > 0 ? tokenEnd(tokens[end - 1]) : dotsStart;
 
-		const line = this.lines[this.currentLine].trim();
-		if (line === '==CTIW==') {
+		return {
+			line: tokens[0].line,
+			lineNumber,
+			dots,
+			dotsLocation: lineRange(tokens[0].line, dotsStart, dotsEnd),
+			// Round odd dot counts to the nearest level (checkIndentation warns about them),
+			// but any dots at all mean the line is meant to be inside something
+			indent: dots === 0 ? 0 : Math.max(1, Math.round(dots / this.dotsPerLevel)),
+			tokens: tokens.slice(end)
+		};
+	}
+
+	/**
+	 * Check if a line is a =CTIW= or ==CTIW== marker
+	 */
+	private isMarkerLine(line: TokenLine): boolean {
+		const first = line.tokens[0];
+		return (
+			first !== undefined &&
+			(first.type === TokenType.CTIW_START || first.type === TokenType.CTIW_END)
+		);
+	}
+
+	/**
+	 * Check if a line is a comment
+	 */
+	private isCommentLine(line: TokenLine): boolean {
+		return line.tokens[0]?.type === TokenType.COMMENT;
+	}
+
+	/**
+	 * Find the next line after index that isn't a comment
+	 */
+	private nextStatementLine(index: number): TokenLine | undefined {
+		let next = index + 1;
+		while (this.lines[next] && this.isCommentLine(this.lines[next])) {
+			next++;
+		}
+		return this.lines[next];
+	}
+
+	/**
+	 * Parse the =CTIW= or ==CTIW== header, recording which one the document uses
+	 */
+	private parseHeader(): boolean {
+		const line = this.lines[this.currentLine];
+		if (line && this.isMarkerLine(line)) {
+			this.metadata.dialect = markerDialect(line.tokens[0].value);
 			this.currentLine++;
 			return true;
 		}
@@ -116,18 +535,11 @@ class Parser {
 	}
 
 	/**
-	 * Parse the ==CTIW== footer
+	 * Parse the =CTIW= or ==CTIW== footer
 	 */
 	private parseFooter(): boolean {
-		// Skip empty lines
-		this.skipEmptyLines();
-
-		if (this.currentLine >= this.lines.length) {
-			return false;
-		}
-
-		const line = this.lines[this.currentLine].trim();
-		if (line === '==CTIW==') {
+		const line = this.lines[this.currentLine];
+		if (line && this.isMarkerLine(line)) {
 			this.currentLine++;
 			return true;
 		}
@@ -139,129 +551,512 @@ class Parser {
 	 */
 	private parseBody(): void {
 		// Stack to track open containers and their indentation levels
-		const containerStack: { element: ElementNode; indent: number }[] = [];
+		const containerStack: OpenContainer[] = [];
 
 		while (this.currentLine < this.lines.length) {
-			const rawLine = this.lines[this.currentLine];
-			const trimmedLine = rawLine.trim();
+			const line = this.lines[this.currentLine];
 
-			// Check for footer (must be exactly ==CTIW== with nothing else)
-			if (trimmedLine === '==CTIW==') {
+			// Check for footer
+			if (this.isMarkerLine(line)) {
 				break;
 			}
 
-			// Skip empty lines
-			if (trimmedLine === '') {
+			this.parsedLines.add(line.line);
+			this.checkLineNumber(line);
+			const indent = line.indent;
+
+			// Comments go in the innermost open container, whatever their dots say,
+			// since they don't change the page
+			if (this.isCommentLine(line)) {
+				const comment = this.numbered(this.parseComment(line.tokens[0]), line);
+				const parent = containerStack[containerStack.length - 1]?.node;
+				(parent ? parent.children : this.body).push(comment);
+				this.structureDepths.set(line.line, containerStack.length);
 				this.currentLine++;
 				continue;
 			}
 
-			// Parse indentation (count leading dots - 4 dots per level)
-			const { indent, content } = this.parseIndentation(rawLine);
+			// Check for a closing container (bare =divide=, ==divide==, =ul=, ...)
+			// A closer has no attributes/content and closes the nearest open
+			// container of the same type, along with anything opened inside it
+			const closingType = this.getClosingType(line.tokens);
+			if (closingType) {
+				const openIndex = this.findOpenContainer(containerStack, closingType);
+				if (openIndex !== -1 && !this.opensNestedContainer(containerStack[openIndex], this.currentLine)) {
+					this.structureDepths.set(line.line, openIndex);
+					this.closeContainer(containerStack, openIndex, line, closingType);
+					this.currentLine++;
+					continue;
+				}
 
-			// Check for closing divide (bare =divide= or ==divide== at same or lower indent level)
-			// A closing divide is one without any attributes/content
-			if ((content === '=divide=' || content === '==divide==') && containerStack.length > 0) {
-				// This is a closing divide - pop the most recent container
-				containerStack.pop();
-				this.currentLine++;
-				continue;
+				// Nothing to close: it's either a new container or a leftover closer
+				if (!this.opensContainer(this.currentLine, closingType)) {
+					this.structureDepths.set(line.line, containerStack.length);
+					const stray = this.numbered(this.strayCloser(containerStack, line, closingType), line);
+					this.addNode(stray, containerStack, indent);
+					this.currentLine++;
+					continue;
+				}
 			}
 
-			// Try to parse as a statement
-			const parsed = this.parseStatement(content, this.currentLine + 1);
-
-			if (parsed) {
-				// Find the appropriate parent based on indentation
-				while (
-					containerStack.length > 0 &&
-					containerStack[containerStack.length - 1].indent >= indent
-				) {
-					// If we're at same or lower indent, pop containers
-					// But only pop if it's truly closed (for divides this happens with =divide=)
-					if (containerStack[containerStack.length - 1].element.elementType !== 'divide') {
-						containerStack.pop();
-					} else {
-						break;
-					}
+			this.structureDepths.set(line.line, containerStack.length);
+			this.checkIndentation(containerStack, line);
+
+			// Parse the statement (a broken line comes back as an ErrorNode)
+			const parsed = this.numbered(this.parseStatement(line), line);
+
+			if (parsed.type === 'Property') {
+				// Document-level property - store in metadata
+				const prop = parsed as PropertyNode;
+				if (prop.name === 'language') {
+					this.metadata.language = String(prop.value);
+				} else if (prop.name === 'font-size') {
+					this.metadata.fontSize = Number(prop.value);
+				} else if (prop.name === 'title') {
+					this.metadata.title = String(prop.value);
 				}
+			} else {
+				this.addNode(parsed, containerStack, indent);
 
-				if (parsed.type === 'Property') {
-					// Document-level property - store in metadata
-					const prop = parsed as PropertyNode;
-					if (prop.name === 'language') {
-						this.metadata.language = String(prop.value);
-					} else if (prop.name === 'font-size') {
-						this.metadata.fontSize = Number(prop.value);
-					} else if (prop.name === 'title') {
-						this.metadata.title = String(prop.value);
-					}
-				} else if (parsed.type === 'Element' || parsed.type === 'Special') {
-					// Add to appropriate parent
-					if (containerStack.length > 0 && indent > 0) {
-						const parent = containerStack[containerStack.length - 1].element;
-						parent.children.push(parsed);
-					} else {
-						this.body.push(parsed);
-					}
+				// The lines of a text block belong to the text, not the page structure
+				if (parsed.type === 'Element' && this.startsTextBlock(parsed)) {
+					this.parseTextBlock(parsed, containerStack.length);
+				}
 
-					// If this is a container (divide), push it onto the stack
-					if (parsed.type === 'Element' && parsed.elementType === 'divide') {
-						containerStack.push({ element: parsed as ElementNode, indent });
+				// If this opens a container (divide, ul, ...), push it onto the stack.
+				// A broken opener like =divide id:main= still opens its container,
+				// so the lines inside it stay nested. One with content, like
+				// =header=Welcome=, is a plain element and opens nothing
+				if (parsed.type !== 'Special' && !(isElementNode(parsed) && parsed.content !== null)) {
+					const containerType = containerTypeOf(parsed);
+					if (containerType && isContainerElement(containerType)) {
+						containerStack.push({ node: parsed, indent });
 					}
 				}
 			}
 
 			this.currentLine++;
 		}
+
+		// Anything still open at the footer never got its closing =name=
+		const footer = this.lines[this.currentLine]?.line ?? null;
+		for (const open of containerStack) {
+			this.addStructureError(
+				DiagnosticCode.UnclosedContainer,
+				`The ${this.describeContainer(open)} never got closed. ` +
+					`Add =${containerTypeOf(open.node)}= after the last line inside it`,
+				open.node.location,
+				open.closerSuggested ? {} : { fixes: [this.closeFix(open, footer)] }
+			);
+		}
+	}
+
+	/**
+	 * Check if a text element with no content is followed by a text block
+	 * (the lexer only makes TEXT_LINE tokens when the block has a closing line)
+	 */
+	private startsTextBlock(node: ElementNode): boolean {
+		if (node.elementType !== 'text' || node.content !== null) {
+			return false;
+		}
+		const next = this.lines[this.currentLine + 1];
+		return next !== undefined && (next.tokens[0]?.type === TokenType.TEXT_LINE || this.isTextBlockCloser(next));
 	}
 
 	/**
-	 * Parse indentation dots from a line
+	 * Check if a line is the = or == that ends a text block
 	 */
-	private parseIndentation(line: string): { indent: number; content: string } {
-		// First trim leading spaces
-		const spaceTrimmed = line.trimStart();
+	private isTextBlockCloser(line: TokenLine): boolean {
+		const [token, ...rest] = line.tokens;
+		return (
+			rest.length === 0 &&
+			(token?.type === TokenType.EQUALS || token?.type === TokenType.DOUBLE_EQUALS)
+		);
+	}
 
-		// Count leading dots
-		let dots = 0;
-		while (dots < spaceTrimmed.length && spaceTrimmed[dots] === '.') {
-			dots++;
+	/**
+	 * Read the lines of a text block, up to its closing line, into the text
+	 * element. Each line keeps its own location, and blank lines at the start
+	 * and end of the block are dropped. Dots in front of a line, up to the
+	 * block's nesting level, are indentation rather than text.
+	 */
+	private parseTextBlock(node: ElementNode, depth: number): void {
+		const lines: ContentLine[] = [];
+		const maxDots = depth * this.dotsPerLevel;
+
+		while (this.lines[this.currentLine + 1]?.tokens[0]?.type === TokenType.TEXT_LINE) {
+			this.currentLine++;
+			const line = this.lines[this.currentLine];
+			const token = line.tokens[0];
+			this.parsedLines.add(line.line);
+
+			const dots = Math.min(token.value.match(/^\.*/)![0].length, maxDots);
+			const text = dots > 0 ? token.value.slice(dots).trimStart() : token.value;
+			const column = token.column + token.value.length - text.length;
+			lines.push({
+				text,
+				location: createLocation(line.line, column, line.line, column + text.length)
+			});
+		}
+
+		while (lines[0]?.text === '') {
+			lines.shift();
+		}
+		while (lines[lines.length - 1]?.text === '') {
+			lines.pop();
+		}
+
+		// The closing line lines up with the text that opened the block
+		const closer = this.lines[this.currentLine + 1];
+		if (closer && this.isTextBlockCloser(closer)) {
+			this.currentLine++;
+			this.parsedLines.add(closer.line);
+			this.checkLineNumber(closer);
+			this.structureDepths.set(closer.line, depth);
+			node.location.end = { line: closer.line, column: closer.tokens[0].column + closer.tokens[0].value.length };
+		}
+
+		Object.assign(node, readContent('text', lines.map((line) => line.text).join('\n')));
+		node.contentLines = lines;
+		if (lines.length > 0) {
+			node.contentLocation = {
+				start: lines[0].location.start,
+				end: lines[lines.length - 1].location.end
+			};
+		}
+	}
+
+	/**
+	 * Record a line's written line number on its node
+	 */
+	private numbered<T extends CTIWNode>(node: T, line: TokenLine): T {
+		if (line.lineNumber) {
+			node.lineNumber = Number(line.lineNumber.value);
+		}
+		return node;
+	}
+
+	/**
+	 * Warn about a line number that repeats an earlier one or goes backwards
+	 */
+	private checkLineNumber(line: TokenLine): void {
+		if (!line.lineNumber) {
+			return;
+		}
+
+		const number = Number(line.lineNumber.value);
+		const firstUse = this.seenLineNumbers.get(number);
+		const range = lineRange(line.line, line.lineNumber.column, tokenEnd(line.lineNumber));
+		if (firstUse !== undefined) {
+			this.addStructureError(
+				DiagnosticCode.RepeatedLineNumber,
+				`Line number ${number} is already used on line ${firstUse}. Each line needs its own number`,
+				range,
+				{ related: [{ message: `Line number ${number} is first used here`, range: this.lineNumberRange(firstUse) }] }
+			);
+		} else if (this.lastLineNumber !== null && number < this.lastLineNumber) {
+			this.addStructureError(
+				DiagnosticCode.LineNumberOrder,
+				`Line number ${number} comes after ${this.lastLineNumber}. Line numbers should go up`,
+				range
+			);
+		}
+
+		if (firstUse === undefined) {
+			this.seenLineNumbers.set(number, line.line);
+		}
+		this.lastLineNumber = number;
+	}
+
+	/**
+	 * Add a node to the innermost open container, or to the body
+	 */
+	private addNode(node: CTIWNode, containerStack: OpenContainer[], indent: number): void {
+		if (containerStack.length > 0 && indent > 0) {
+			containerStack[containerStack.length - 1].node.children.push(node);
+		} else {
+			this.body.push(node);
+		}
+	}
+
+	/**
+	 * Close the container at openIndex. Containers opened inside it that
+	 * were never closed are closed along with it.
+	 */
+	private closeContainer(
+		containerStack: OpenContainer[],
+		openIndex: number,
+		line: TokenLine,
+		closingType: CTIWElementType
+	): void {
+		const open = containerStack[openIndex];
+
+		const closer = lineRange(line.line, line.tokens[0].column, tokenEnd(line.tokens[line.tokens.length - 1]));
+		for (const inner of containerStack.slice(openIndex + 1)) {
+			this.addStructureError(
+				DiagnosticCode.UnclosedBeforeCloser,
+				`The ${this.describeContainer(inner)} never got closed ` +
+					`before the =${closingType}= on line ${line.line}`,
+				inner.node.location,
+				{
+					related: [{ message: `The =${closingType}= box closes here`, range: closer }],
+					fixes: [this.closeFix(inner, line.line)]
+				}
+			);
 		}
 
-		// Each group of 4 dots is one level of indentation
-		const indent = Math.floor(dots / 4);
-		const content = spaceTrimmed.slice(dots).trim();
+		if (line.indent !== open.indent) {
+			this.addStructureError(
+				DiagnosticCode.CloserDots,
+				`This =${closingType}= closes the box from line ${open.node.location.start.line}, ` +
+					`so it needs the same dots as that line`,
+				line.dotsLocation,
+				{ related: [this.openedHere(open)], fixes: [this.dotsFix(line, open.indent)] }
+			);
+		}
 
-		return { indent, content };
+		containerStack.length = openIndex;
+	}
+
+	/**
+	 * Decide whether a bare =name= with nothing of its type open starts a new
+	 * container. It does when the next line is indented inside it, or when a
+	 * later =name= at the same indent can close it without opening a box itself.
+	 */
+	private opensContainer(index: number, containerType: CTIWElementType): boolean {
+		const line = this.lines[index];
+		const isBodyLine = (candidate?: TokenLine): candidate is TokenLine =>
+			candidate !== undefined && !this.isMarkerLine(candidate);
+
+		const next = this.nextStatementLine(index);
+		if (isBodyLine(next) && next.indent > line.indent) {
+			return true;
+		}
+
+		for (let i = index + 1; isBodyLine(this.lines[i]); i++) {
+			const candidate = this.lines[i];
+			if (candidate.indent === line.indent && this.getClosingType(candidate.tokens) === containerType) {
+				const after = this.nextStatementLine(i);
+				return !(isBodyLine(after) && after.indent > candidate.indent);
+			}
+		}
+
+		return false;
+	}
+
+	/**
+	 * Check if a bare =name= that could close an open container is really a
+	 * new one nested inside it: it's indented deeper, and so is the next line
+	 */
+	private opensNestedContainer(open: OpenContainer, index: number): boolean {
+		const line = this.lines[index];
+		const next = this.nextStatementLine(index);
+		return (
+			line.indent > open.indent &&
+			next !== undefined &&
+			!this.isMarkerLine(next) &&
+			next.indent > line.indent
+		);
+	}
+
+	/**
+	 * Report a closing =name= that has nothing to close, keeping it in the tree
+	 */
+	private strayCloser(
+		containerStack: OpenContainer[],
+		line: TokenLine,
+		closingType: CTIWElementType
+	): ErrorNode {
+		this.startStatement(line);
+		const top = containerStack[containerStack.length - 1];
+		if (!top) {
+			const next = createLocation(line.line, 1, line.line + 1, 1);
+			const wholeLine = line.line < this.lineCount ? next : lineRange(line.line, 1, this.lineSpan().end);
+			return this.errorNode(
+				DiagnosticCode.StrayCloser,
+				`This closing =${closingType}= has nothing to close`,
+				line.tokens[0].column,
+				undefined,
+				{ fixes: [{ title: 'Take away this line', edits: [{ range: wholeLine, text: '' }] }] }
+			);
+		}
+
+		const topType = containerTypeOf(top.node);
+		const name = line.tokens.find((token) => token.type === TokenType.IDENTIFIER) ?? line.tokens[0];
+		return this.errorNode(
+			DiagnosticCode.MismatchedCloser,
+			`This closing =${closingType}= doesn't match the ${this.describeContainer(top)}. ` +
+				`Did you mean =${topType}=?`,
+			line.tokens[0].column,
+			undefined,
+			{
+				related: [this.openedHere(top)],
+				fixes: topType
+					? [{ title: `Change it to =${topType}=`, edits: [{ range: this.tokenLocation(name), text: topType }] }]
+					: []
+			}
+		);
+	}
+
+	/**
+	 * Check a line's dots against the container it sits in. A line inside a
+	 * container needs exactly one more level of dots than the container's line.
+	 */
+	private checkIndentation(containerStack: OpenContainer[], line: TokenLine): void {
+		if (line.dots % this.dotsPerLevel !== 0) {
+			const suggestion = line.indent * this.dotsPerLevel;
+			this.addStructureError(
+				DiagnosticCode.UnevenDots,
+				`This line has ${line.dots} dots, but each level uses ${this.dotsPerLevel}. ` +
+					`Did you mean ${suggestion} dots?`,
+				line.dotsLocation,
+				{ fixes: [this.dotsFix(line, line.indent)] }
+			);
+		}
+
+		const top = containerStack[containerStack.length - 1];
+		const expected = top ? top.indent + 1 : 0;
+		const dots = expected * this.dotsPerLevel;
+
+		if (line.indent > expected && top) {
+			this.addStructureError(
+				DiagnosticCode.TooManyDots,
+				`This line has too many dots. Lines inside the ${this.describeContainer(top)} need ${dots} dots`,
+				line.dotsLocation,
+				{ related: [this.openedHere(top)], fixes: [this.dotsFix(line, expected)] }
+			);
+		} else if (line.indent > expected) {
+			this.addStructureError(
+				DiagnosticCode.DotsOutsideContainer,
+				`This line has dots, but it isn't inside a box. Take away the dots or put it inside a box like =divide=`,
+				line.dotsLocation,
+				{ fixes: [this.dotsFix(line, 0)] }
+			);
+		} else if (top && line.indent < expected && !top.dedentReported) {
+			// Only report this once per container, since every line after it would repeat it
+			top.dedentReported = true;
+			// A box with lines in it and no closer later most likely just needed closing;
+			// otherwise this line was meant to be inside it
+			const closes = top.node.children.length > 0 && !this.closedLater(top);
+			top.closerSuggested = closes;
+			this.addStructureError(
+				DiagnosticCode.MissingDots,
+				`The ${this.describeContainer(top)} is still open here. Add ${dots} dots to put ` +
+					`this line inside it, or close the box first with =${containerTypeOf(top.node)}=`,
+				line.dotsLocation,
+				{
+					related: [this.openedHere(top)],
+					fixes: [closes ? this.closeFix(top, line.line) : this.dotsFix(line, expected)]
+				}
+			);
+		}
+	}
+
+	/**
+	 * Check if a later line closes a container (with the same dots as its opener)
+	 */
+	private closedLater(open: OpenContainer): boolean {
+		const type = containerTypeOf(open.node);
+		for (let i = this.currentLine + 1; i < this.lines.length && !this.isMarkerLine(this.lines[i]); i++) {
+			const line = this.lines[i];
+			if (line.indent === open.indent && this.getClosingType(line.tokens) === type) {
+				return true;
+			}
+		}
+		return false;
+	}
+
+	/**
+	 * Describe an open container for error messages, like "=divide= box on line 4"
+	 */
+	private describeContainer(open: OpenContainer): string {
+		return `=${containerTypeOf(open.node)}= box on line ${open.node.location.start.line}`;
+	}
+
+	/**
+	 * Get the container type of a bare =name= (or ==divide==) line, if it is one
+	 */
+	private getClosingType(tokens: Token[]): CTIWElementType | null {
+		if (tokens.length !== 3) {
+			return null;
+		}
+		const [open, name, close] = tokens;
+		if (
+			name.type !== TokenType.IDENTIFIER ||
+			open.type !== close.type ||
+			(open.type !== TokenType.EQUALS && open.type !== TokenType.DOUBLE_EQUALS)
+		) {
+			return null;
+		}
+		const elementType = name.value.toLowerCase();
+		return isContainerElement(elementType) ? elementType : null;
+	}
+
+	/**
+	 * Find the innermost open container of a type (-1 if none is open)
+	 */
+	private findOpenContainer(containerStack: OpenContainer[], elementType: CTIWElementType): number {
+		for (let i = containerStack.length - 1; i >= 0; i--) {
+			if (containerTypeOf(containerStack[i].node) === elementType) {
+				return i;
+			}
+		}
+		return -1;
 	}
 
 	/**
 	 * Parse a single statement (property or element)
 	 */
-	private parseStatement(
-		line: string,
-		lineNumber: number
-	): PropertyNode | ElementNode | SpecialNode | null {
-		if (!line.startsWith('=')) {
+	private parseStatement(line: TokenLine): PropertyNode | ElementNode | SpecialNode | ErrorNode {
+		this.startStatement(line);
+
+		const first = this.peek();
+		if (!first || (first.type !== TokenType.EQUALS && first.type !== TokenType.DOUBLE_EQUALS)) {
 			// Not a valid statement
-			this.addError(`Hmm, I don't understand this line. Lines should start with =`, lineNumber);
-			return null;
+			return this.errorNode(
+				DiagnosticCode.NotAStatement,
+				`Hmm, I don't understand this line. Lines should start with =`,
+				first?.column ?? this.lineSpan().start
+			);
 		}
 
 		// Check for special element like =(time)=
-		if (line.startsWith('=(') && line.includes(')=')) {
-			return this.parseSpecialElement(line, lineNumber);
+		if (first.type === TokenType.EQUALS && this.peek(1)?.type === TokenType.LPAREN) {
+			return this.parseSpecialElement();
 		}
 
 		// Check for double equals (text element syntax)
 		// ==text==content== or ==content== (shorthand for text)
-		if (line.startsWith('==')) {
-			return this.parseDoubleEqualsElement(line, lineNumber);
+		if (first.type === TokenType.DOUBLE_EQUALS) {
+			return this.parseDoubleEqualsElement();
 		}
 
 		// Parse as property or element (single equals syntax for non-text elements)
-		return this.parsePropertyOrElement(line, lineNumber);
+		return this.parsePropertyOrElement();
+	}
+
+	/**
+	 * Parse a // or /* comment token into a CommentNode
+	 */
+	private parseComment(token: Token): CommentNode {
+		const isBlock = token.value.startsWith('/*');
+		const body = isBlock
+			? token.value.slice(2, token.value.endsWith('*/') ? -2 : undefined)
+			: token.value.slice(2);
+		const text = body
+			.split('\n')
+			.map((line) => line.trim())
+			.join('\n')
+			.trim();
+
+		const sourceLines = token.value.split('\n');
+		const endLine = token.line + sourceLines.length - 1;
+		const lastLine = sourceLines[sourceLines.length - 1];
+		const endColumn = (sourceLines.length === 1 ? token.column : 1) + lastLine.length;
+
+		const location = createLocation(token.line, token.column, endLine, endColumn);
+		location.source = token.value;
+		return createComment(text, location);
 	}
 
 	/**
@@ -269,192 +1064,152 @@ class Parser {
 	 * ==text==content== or ==content== (shorthand for text)
 	 * Properties can follow: ==text==content== color=red=
 	 */
-	private parseDoubleEqualsElement(
-		line: string,
-		lineNumber: number
-	): ElementNode | null {
-		// Remove leading ==
-		let rest = line.slice(2);
-		const properties: ElementProperties = {};
-
-		// Check if this is the shorthand: ==content==
-		// vs the full form: ==text==content==
-		// The shorthand doesn't have a second == before the content ends
-
-		// Try to find ==text== pattern first
-		const textMatch = rest.match(/^text==(.*)$/i);
-		if (textMatch) {
-			// Full form: ==text==content== [properties]
-			let contentAndProps = textMatch[1];
-			let content: string | null = null;
-
-			// Special case: if contentAndProps starts with space, content is empty
-			// and rest is properties (e.g., ==text== color=red=)
-			if (contentAndProps.startsWith(' ')) {
-				// Empty content, parse properties
-				const propsStr = contentAndProps.trim();
-				if (propsStr) {
-					const propParts = this.tokenizeElementLine(propsStr);
-					for (const part of propParts) {
-						const [propName, propValue] = this.parseAttribute(part);
-						if (propName) {
-							properties[propName] = propValue;
-						}
-					}
-				}
-				return createElement('text', {
-					properties,
-					content: null,
-					indent: 0,
-					location: createLocation(lineNumber, 1, lineNumber, line.length)
-				});
-			}
-
-			// Find the closing == for content
-			const closingIndex = contentAndProps.indexOf('==');
-			if (closingIndex !== -1) {
-				content = contentAndProps.slice(0, closingIndex).trim() || null;
-				// Parse properties after the closing ==
-				const propsStr = contentAndProps.slice(closingIndex + 2).trim();
-				if (propsStr) {
-					const propParts = this.tokenizeElementLine(propsStr);
-					for (const part of propParts) {
-						const [propName, propValue] = this.parseAttribute(part);
-						if (propName) {
-							properties[propName] = propValue;
-						}
-					}
-				}
-			} else {
-				// No closing == - content goes to end
-				content = contentAndProps.trim() || null;
-			}
+	private parseDoubleEqualsElement(): ElementNode {
+		const open = this.advance();
+		const name = this.peek();
 
-			return createElement('text', {
-				properties,
-				content,
-				indent: 0,
-				location: createLocation(lineNumber, 1, lineNumber, line.length)
-			});
-		}
+		// The lexer only emits a name here for ==text== and ==divide==
+		if (name?.type === TokenType.IDENTIFIER && this.peek(1)?.type === TokenType.DOUBLE_EQUALS) {
+			this.advance();
+			const delimiter = this.advance();
 
-		// Check for ==divide== pattern (container)
-		if (rest.toLowerCase().startsWith('divide')) {
-			const divideRest = rest.slice(6); // Remove 'divide'
-			if (divideRest.startsWith('==')) {
+			if (name.value.toLowerCase() === 'divide') {
 				// ==divide==content/properties==
-				const afterEquals = divideRest.slice(2);
-				return this.parseElement('divide', afterEquals.replace(/==\s*$/, ''), lineNumber);
+				return this.parseElement('divide', name, delimiter);
 			}
+
+			// Full form: ==text==content== [properties]
+			return this.parseElement('text', name, delimiter);
 		}
 
 		// Otherwise it's shorthand: ==content==
-		// Find the closing ==
-		const closingIndex = rest.indexOf('==');
-		let content: string | null = null;
-
-		if (closingIndex !== -1) {
-			content = rest.slice(0, closingIndex).trim() || null;
-			// Parse properties after the closing ==
-			const propsStr = rest.slice(closingIndex + 2).trim();
-			if (propsStr) {
-				const propParts = this.tokenizeElementLine(propsStr);
-				for (const part of propParts) {
-					const [propName, propValue] = this.parseAttribute(part);
-					if (propName) {
-						properties[propName] = propValue;
-					}
-				}
-			}
-		} else {
-			// No closing == - content goes to end
-			content = rest.trim() || null;
-		}
+		const content = this.parseContent(open, true);
+		const { properties, propertyLocations, values } = this.parseProperties();
 
-		return createElement('text', {
-			properties,
-			content,
-			indent: 0,
-			location: createLocation(lineNumber, 1, lineNumber, line.length)
-		});
+		const element = createElement('text', { properties, indent: 0, location: this.statementLocation() });
+		element.propertyLocations = propertyLocations;
+		element.values = values;
+		return this.withContent(element, content);
 	}
 
 	/**
 	 * Parse a special element like =(time)=
 	 */
-	private parseSpecialElement(line: string, lineNumber: number): SpecialNode | null {
-		const match = line.match(/^=\((\w+)\)=$/);
-		if (match) {
-			const specialType = match[1].toLowerCase();
+	private parseSpecialElement(): SpecialNode | ErrorNode {
+		const [open, lparen, name, rparen, close] = this.tokens;
+		if (
+			this.tokens.length === 5 &&
+			lparen.type === TokenType.LPAREN &&
+			name.type === TokenType.IDENTIFIER &&
+			rparen.type === TokenType.RPAREN &&
+			close.type === TokenType.EQUALS
+		) {
+			const specialType = name.value.toLowerCase();
 			if (specialType === 'time') {
-				return createSpecial('time', createLocation(lineNumber, 1, lineNumber, line.length));
+				const special = createSpecial('time', this.statementLocation());
+				special.nameLocation = this.tokenLocation(name);
+				return special;
 			}
 		}
-		this.addError(`I don't know this special element`, lineNumber);
-		return null;
+		return this.errorNode(DiagnosticCode.UnknownSpecial, `I don't know this special element`, open.column);
 	}
 
 	/**
 	 * Parse a property or element line
 	 */
-	private parsePropertyOrElement(
-		line: string,
-		lineNumber: number
-	): PropertyNode | ElementNode | null {
-		// Remove leading =
-		const rest = line.slice(1);
-
-		// Find the element/property name (up to next =)
-		const nameEnd = rest.indexOf('=');
-		if (nameEnd === -1) {
-			this.addError(`Expected = after the name`, lineNumber);
-			return null;
+	private parsePropertyOrElement(): PropertyNode | ElementNode | ErrorNode {
+		const open = this.advance();
+
+		// Find the element/property name
+		const nameToken = this.peek();
+		if (
+			!nameToken ||
+			(nameToken.type !== TokenType.IDENTIFIER && nameToken.type !== TokenType.NUMBER) ||
+			nameToken.column !== tokenEnd(open)
+		) {
+			return this.errorNode(
+				DiagnosticCode.MissingName,
+				`Hmm, I need a name after the =, like =title= or =button=`,
+				tokenEnd(open)
+			);
 		}
-
-		const name = rest.slice(0, nameEnd).trim().toLowerCase();
-		const remaining = rest.slice(nameEnd + 1);
+		this.advance();
+
+		const name = nameToken.value.toLowerCase();
+
+		const delimiter = this.peek();
+		if (!delimiter || delimiter.type !== TokenType.EQUALS) {
+			// Remember which container a broken =divide ...= line meant to open
+			const containerType = isContainerElement(name) ? name : undefined;
+			return this.errorNode(
+				DiagnosticCode.MissingEquals,
+				`Expected = after the name`,
+				tokenEnd(nameToken),
+				containerType,
+				{
+					fixes: [
+						{
+							title: 'Add = after the name',
+							edits: [{ range: lineRange(this.lineNumber, tokenEnd(nameToken)), text: '=' }]
+						}
+					]
+				}
+			);
+		}
+		this.advance();
 
 		// Check if this is a document property (not title - that's both)
 		if (DOC_PROPERTIES.has(name)) {
-			return this.parseDocProperty(name, remaining, lineNumber);
+			return this.parseDocProperty(name, nameToken, delimiter);
 		}
 
 		// Title is special - it can be both an element and a doc property
 		// Store in metadata (only if not already set - first title wins) AND create a title element
 		if (name === 'title') {
-			// Extract the content value for metadata (only set if not already set)
+			const title = this.parseElement('title', nameToken, delimiter);
 			if (!this.metadata.title) {
-				const valueEnd = remaining.indexOf('=');
-				const value = valueEnd !== -1 ? remaining.slice(0, valueEnd).trim() : remaining.trim();
-				this.metadata.title = value;
+				this.metadata.title = title.content ?? '';
 			}
-
-			// Also create a title element
-			return this.parseElement('title', remaining, lineNumber);
+			return title;
 		}
 
-		// Check if this is a known element type
-		if (isValidElementType(name)) {
-			return this.parseElement(name as CTIWElementType, remaining, lineNumber);
+		if (nameToken.type === TokenType.IDENTIFIER && isValidElementType(name)) {
+			// Elements CTIW doesn't know still work, with a warning in case it's a typo
+			const warning = unknownElementWarning(name);
+			if (warning) {
+				this.addStructureError(
+					DiagnosticCode.UnknownElement,
+					warning.message,
+					this.tokenLocation(nameToken),
+					warning.suggestion
+						? {
+								fixes: [
+									{
+										title: `Change it to =${warning.suggestion}=`,
+										edits: [{ range: this.tokenLocation(nameToken), text: warning.suggestion }]
+									}
+								]
+							}
+						: {}
+				);
+			}
+			return this.parseElement(name as CTIWElementType, nameToken, delimiter);
 		}
 
-		// Unknown element/property
-		this.addError(`Hmm, I don't know what '${name}' is. Try: ${ELEMENT_TYPES.join(', ')}`, lineNumber);
-		return null;
+		// A name that can't be a tag, like =123=
+		return this.errorNode(
+			DiagnosticCode.InvalidElementName,
+			`Hmm, ${nameToken.value} can't be an element. Elements have names like =title= or =button=`,
+			nameToken.column
+		);
 	}
 
 	/**
 	 * Parse a document-level property
 	 */
-	private parseDocProperty(name: string, remaining: string, lineNumber: number): PropertyNode {
-		// Find the value (up to the closing =)
-		let value: string | number = '';
-		const valueEnd = remaining.indexOf('=');
-		if (valueEnd !== -1) {
-			value = remaining.slice(0, valueEnd).trim();
-		} else {
-			value = remaining.trim();
-		}
+	private parseDocProperty(name: string, nameToken: Token, delimiter: Token): PropertyNode {
+		const content = this.parseContent(delimiter, false);
+		let value: string | number = unescapeValue(content?.raw ?? '');
 
 		// Try to parse as number
 		const numVal = Number(value);
@@ -462,172 +1217,373 @@ class Parser {
 			value = numVal;
 		}
 
-		return createProperty(name, value, createLocation(lineNumber, 1, lineNumber, remaining.length));
+		const property = createProperty(name, value, this.statementLocation());
+		property.nameLocation = this.tokenLocation(nameToken);
+		if (content) {
+			property.valueLocation = content.location;
+		}
+		return property;
 	}
 
 	/**
-	 * Parse an element
+	 * Parse an element's content and properties after the delimiter that ends its name
 	 */
-	private parseElement(
-		elementType: CTIWElementType,
-		remaining: string,
-		lineNumber: number
-	): ElementNode {
-		let content: string | null = null;
-		const properties: ElementProperties = {};
-
-		// Parse the remaining part of the line
-		if (remaining === '') {
-			// Just =element=, no content or properties
-			return createElement(elementType, {
-				properties,
-				content,
-				indent: 0,
-				location: createLocation(lineNumber, 1, lineNumber, 1)
-			});
-		}
+	private parseElement(elementType: CTIWElementType, nameToken: Token, delimiter: Token): ElementNode {
+		const content = this.parseContent(delimiter, false);
+		const { properties, propertyLocations, values } = this.parseProperties();
+
+		const element = createElement(elementType, { properties, indent: 0, location: this.statementLocation() });
+		element.nameLocation = this.tokenLocation(nameToken);
+		element.propertyLocations = propertyLocations;
+		element.values = values;
+		return this.withContent(element, content);
+	}
 
-		// The format can be:
-		// 1. " id:main=" - no content, properties only (starts with space)
-		// 2. "content=" - content only, ends with =
-		// 3. "content= id:main=" - content followed by properties
-
-		// If remaining starts with space, there's no content - just properties
-		if (remaining.startsWith(' ')) {
-			const propsStr = remaining.trim();
-			if (propsStr) {
-				const propParts = this.tokenizeElementLine(propsStr);
-				for (const part of propParts) {
-					const [propName, propValue] = this.parseAttribute(part);
-					if (propName) {
-						properties[propName] = propValue;
-					}
-				}
-			}
-			return createElement(elementType, {
-				properties,
-				content: null,
-				indent: 0,
-				location: createLocation(lineNumber, 1, lineNumber, remaining.length)
-			});
+	/**
+	 * Fill in an element's content from its text as written (null for none)
+	 */
+	private withContent(element: ElementNode, content: ParsedContent | null): ElementNode {
+		if (content !== null) {
+			Object.assign(element, readContent(element.elementType, unquoteValue(content.raw)));
+			element.contentLocation = content.location;
 		}
+		return element;
+	}
 
-		// There's content - find where it ends (first = followed by space or end)
-		let contentEnd = -1;
-		for (let i = 0; i < remaining.length; i++) {
-			if (remaining[i] === '=') {
-				// Check if this = is followed by a space or is at end
-				if (i === remaining.length - 1 || remaining[i + 1] === ' ') {
-					contentEnd = i;
-					break;
-				}
-			}
+	/**
+	 * Parse the content that follows a delimiter, and its closing = or ==
+	 *
+	 * Content must touch the delimiter (=button=Click= has content,
+	 * =divide= id:main= does not) unless allowGap is set for ==content==.
+	 * Content without its closing = or == still counts, with an error.
+	 * Returns null when there is no content at all, and '' (at the closer)
+	 * for =button==. The content comes back as written, with its quotes and
+	 * escapes.
+	 */
+	private parseContent(delimiter: Token, allowGap: boolean): ParsedContent | null {
+		const token = this.peek();
+		if (!token) {
+			return null;
 		}
 
-		if (contentEnd !== -1) {
-			content = remaining.slice(0, contentEnd).trim();
-			// Get the part after the content (properties)
-			const propsStr = remaining.slice(contentEnd + 1).trim();
+		const touching = token.column === tokenEnd(delimiter);
 
-			if (propsStr) {
-				// Parse properties - they're space-separated
-				const propParts = this.tokenizeElementLine(propsStr);
-				for (const part of propParts) {
-					const [propName, propValue] = this.parseAttribute(part);
-					if (propName) {
-						properties[propName] = propValue;
+		if (token.type === TokenType.STRING && (touching || allowGap)) {
+			this.advance();
+			const closer = this.peek();
+			if (closer && (closer.type === TokenType.EQUALS || closer.type === TokenType.DOUBLE_EQUALS)) {
+				this.advance();
+			} else {
+				// The content still counts, like =button=Click Me=
+				const end = tokenEnd(token);
+				this.addError(
+					DiagnosticCode.MissingEquals,
+					`Don't forget the ${delimiter.value} after ${token.value}`,
+					this.tokenLocation(token),
+					{
+						fixes: [
+							{
+								title: `Add ${delimiter.value} at the end`,
+								edits: [{ range: lineRange(this.lineNumber, end), text: delimiter.value }]
+							}
+						]
 					}
-				}
+				);
 			}
-		} else {
-			// No = found - the whole thing is content without closing =
-			content = remaining.trim();
+			return { raw: token.value, location: this.tokenLocation(token) };
 		}
 
-		// Handle empty content
-		if (content === '') {
-			content = '';
+		// An immediate closing delimiter means empty content
+		if (touching && (token.type === TokenType.EQUALS || token.type === TokenType.DOUBLE_EQUALS)) {
+			this.advance();
+			return {
+				raw: '',
+				location: createLocation(this.lineNumber, token.column, this.lineNumber, token.column)
+			};
 		}
 
-		return createElement(elementType, {
-			properties,
-			content,
-			indent: 0,
-			location: createLocation(lineNumber, 1, lineNumber, remaining.length)
-		});
+		return null;
 	}
 
 	/**
-	 * Tokenize the element line into parts
+	 * Parse space-separated properties like id:name or color=FF0000=,
+	 * where each one's name and value are, and the typed values of the
+	 * ones with valid values (the others get an error)
 	 */
-	private tokenizeElementLine(line: string): string[] {
-		const parts: string[] = [];
-		let current = '';
-		let i = 0;
+	private parseProperties(): {
+		properties: ElementProperties;
+		propertyLocations: Record<string, PropertyLocation>;
+		values: Record<string, TypedValue>;
+	} {
+		const properties: ElementProperties = {};
+		const propertyLocations: Record<string, PropertyLocation> = {};
+		const values: Record<string, TypedValue> = {};
 
-		while (i < line.length) {
-			const char = line[i];
+		while (this.peek()) {
+			const name = this.advance();
 
-			if (char === ' ') {
-				if (current.trim()) {
-					parts.push(current.trim());
-				}
-				current = '';
-				i++;
+			// Skip stray closing delimiters and words without a value
+			if (name.type !== TokenType.IDENTIFIER) {
 				continue;
 			}
 
-			current += char;
-			i++;
-		}
+			const separator = this.peek();
+			if (
+				!separator ||
+				(separator.type !== TokenType.COLON && separator.type !== TokenType.EQUALS) ||
+				separator.column !== tokenEnd(name)
+			) {
+				continue;
+			}
+			this.advance();
+
+			let value = '';
+			const location: PropertyLocation = { key: this.tokenLocation(name) };
+			const valueToken = this.peek();
+			if (valueToken && VALUE_TOKENS.has(valueToken.type) && valueToken.column === tokenEnd(separator)) {
+				value = unescapeValue(valueToken.value);
+				location.value = this.tokenLocation(valueToken);
+				this.advance();
+			}
+
+			properties[name.value] = value;
+			propertyLocations[name.value] = location;
+
+			const typed = parseValue(name.value, value);
+			if (typed.ok) {
+				values[name.value] = typed.value;
+			} else {
+				delete values[name.value];
+				const range = location.value ?? location.key;
+				this.addStructureError(
+					DiagnosticCode.InvalidValue,
+					typed.message,
+					range,
+					typed.suggestion
+						? { fixes: [{ title: `Change it to ${typed.suggestion}`, edits: [{ range, text: typed.suggestion }] }] }
+						: {}
+				);
+			}
 
-		if (current.trim()) {
-			parts.push(current.trim());
+			if (name.value === LEGACY_COLOR) {
+				this.addStructureError(
+					DiagnosticCode.LegacyColor,
+					"color= colors the background, so it's called background-color= now. Use text-color= to color the words!",
+					location.key,
+					{
+						fixes: [
+							{
+								title: 'Change it to background-color=',
+								edits: [{ range: location.key, text: 'background-color' }]
+							}
+						]
+					}
+				);
+			}
 		}
 
-		return parts;
+		return { properties, propertyLocations, values };
 	}
 
 	/**
-	 * Parse an attribute like id:name or color=FF0000
+	 * Location of a token on the current line
 	 */
-	private parseAttribute(part: string): [string | null, string] {
-		// Remove trailing = if present
-		if (part.endsWith('=')) {
-			part = part.slice(0, -1);
-		}
+	private tokenLocation(token: Token): SourceLocation {
+		return createLocation(this.lineNumber, token.column, this.lineNumber, tokenEnd(token));
+	}
 
-		// Check for colon syntax (id:name)
-		if (part.includes(':')) {
-			const [name, value] = part.split(':', 2);
-			return [name.trim(), value.trim()];
-		}
+	/**
+	 * Location covering every token of the current statement
+	 */
+	private statementLocation() {
+		const first = this.tokens[0];
+		const last = this.tokens[this.tokens.length - 1];
+		return createLocation(this.lineNumber, first.column, this.lineNumber, tokenEnd(last));
+	}
 
-		// Check for equals syntax (color=FF0000)
-		if (part.includes('=')) {
-			const [name, value] = part.split('=', 2);
-			return [name.trim(), value.trim()];
+	/**
+	 * Columns of the current line's text, without indentation dots or
+	 * trailing whitespace (end is exclusive)
+	 */
+	private lineSpan(): { start: number; end: number } {
+		const text = this.sourceLines[this.lineNumber - 1] ?? '';
+		const end = text.trimEnd().length + 1;
+		if (this.tokens.length > 0) {
+			return { start: this.tokens[0].column, end };
 		}
+		const match = text.match(/^[\s.]*/);
+		return { start: Math.min((match?.[0].length ?? 0) + 1, end), end };
+	}
 
-		return [null, ''];
+	/**
+	 * Report an error on the current statement and return an ErrorNode that
+	 * keeps the broken line (and its exact source text) in the tree
+	 */
+	private errorNode(
+		code: DiagnosticCode,
+		message: string,
+		column: number,
+		containerType?: CTIWElementType,
+		details?: DiagnosticDetails
+	): ErrorNode {
+		const { start, end } = this.lineSpan();
+		this.addError(code, message, lineRange(this.lineNumber, column, end), details);
+
+		const location = createLocation(this.lineNumber, start, this.lineNumber, end);
+		location.source = (this.sourceLines[this.lineNumber - 1] ?? '').slice(start - 1, end - 1);
+
+		return createError(message, location.source, location, containerType);
 	}
 
 	/**
-	 * Skip empty lines
+	 * Point the token cursor at the start of a line's statement
 	 */
-	private skipEmptyLines(): void {
-		while (this.currentLine < this.lines.length && this.lines[this.currentLine].trim() === '') {
-			this.currentLine++;
-		}
+	private startStatement(line: TokenLine): void {
+		this.tokens = line.tokens;
+		this.pos = 0;
+		this.lineNumber = line.line;
+	}
+
+	/**
+	 * Look at a token of the current statement without consuming it
+	 */
+	private peek(offset: number = 0): Token | undefined {
+		return this.tokens[this.pos + offset];
+	}
+
+	/**
+	 * Consume and return the next token of the current statement
+	 */
+	private advance(): Token {
+		return this.tokens[this.pos++];
 	}
 
 	/**
 	 * Add an error
 	 */
-	private addError(message: string, line?: number): void {
-		this.errors.push({
-			message,
-			line: line ?? this.currentLine + 1
-		});
+	private addError(
+		code: DiagnosticCode,
+		message: string,
+		range: SourceLocation,
+		details?: DiagnosticDetails
+	): void {
+		this.errors.push(createDiagnostic(code, message, range, details));
+		this.errorLines.add(range.start.line);
+	}
+
+	/**
+	 * Add a problem with how lines fit together (unclosed boxes, dots) or a
+	 * warning about a line. Unlike addError, this doesn't hide the lexer's
+	 * errors for the line.
+	 */
+	private addStructureError(
+		code: DiagnosticCode,
+		message: string,
+		range: SourceLocation,
+		details?: DiagnosticDetails
+	): void {
+		this.errors.push(createDiagnostic(code, message, range, details));
+	}
+
+	/**
+	 * Where the line number of an earlier line is written
+	 */
+	private lineNumberRange(line: number): SourceLocation {
+		const written = this.lines.find((tokenLine) => tokenLine.line === line)?.lineNumber;
+		return written ? lineRange(line, written.column, tokenEnd(written)) : lineRange(line, 1);
+	}
+
+	/**
+	 * An edit that puts a new line before a line (or at the end of the code, for null)
+	 */
+	private insertLine(before: number | null, text: string): TextEdit {
+		if (before !== null) {
+			return { range: lineRange(before, 1), text: `${text}\n` };
+		}
+		const last = this.sourceLines[this.lineCount - 1] ?? '';
+		return { range: lineRange(this.lineCount, last.length + 1), text: last.trim() ? `\n${text}` : text };
+	}
+
+	/**
+	 * A fix that ends a comment that never ends at the end of the line it starts on
+	 */
+	private closeCommentFix(line: number): DiagnosticFix {
+		const text = this.sourceLines[line - 1] ?? '';
+		return {
+			title: 'Add */ at the end of the line',
+			edits: [{ range: lineRange(line, text.length + 1), text: text.endsWith(' ') ? '*/' : ' */' }]
+		};
+	}
+
+	/**
+	 * The marker that matches the document: the header's, or without one the
+	 * footer's, or ==CTIW== when there's neither
+	 */
+	private documentMarker(): string {
+		const last = this.lines[this.lines.length - 1];
+		const dialect =
+			this.metadata.dialect ??
+			(last && this.isMarkerLine(last) ? markerDialect(last.tokens[0].value) : 'double');
+		return DIALECT_MARKERS[dialect];
+	}
+
+	/**
+	 * Check if a comment runs to the end of the code (taking the footer with it)
+	 */
+	private inUnclosedComment(): boolean {
+		return this.lexerErrors.some((error) => error.code === DiagnosticCode.UnclosedComment);
+	}
+
+	/**
+	 * A fix that gives a line the dots for a nesting level
+	 */
+	private dotsFix(line: TokenLine, indent: number): DiagnosticFix {
+		const dots = indent * this.dotsPerLevel;
+		return {
+			title: dots === 0 ? 'Take away the dots' : `Use ${dots} dots`,
+			edits: [{ range: line.dotsLocation, text: '.'.repeat(dots) }]
+		};
+	}
+
+	/**
+	 * A fix that closes a container with a new line before a line (or at the end of the code)
+	 */
+	private closeFix(open: OpenContainer, before: number | null): DiagnosticFix {
+		const type = containerTypeOf(open.node);
+		const closer = `${'.'.repeat(open.indent * this.dotsPerLevel)}=${type}=`;
+		return { title: `Add =${type}= to close it`, edits: [this.insertLine(before, closer)] };
+	}
+
+	/**
+	 * A related location pointing at the line that opened a container
+	 */
+	private openedHere(open: OpenContainer): RelatedLocation {
+		return { message: `The =${containerTypeOf(open.node)}= box opens here`, range: open.node.location };
+	}
+
+	/**
+	 * Merge lexer errors into the parser's errors, sorted by position.
+	 * Lexer errors are only kept for lines the parser parsed without
+	 * complaint, since the parser's message for a line is the friendlier one.
+	 * A comment that never ends is always kept, since it hides the rest of the code.
+	 */
+	private collectErrors(): Diagnostic[] {
+		const lexerErrors = this.lexerErrors.filter(
+			(error) =>
+				error.code === DiagnosticCode.UnclosedComment ||
+				(this.parsedLines.has(error.line) && !this.errorLines.has(error.line))
+		);
+
+		return [
+			...this.errors,
+			...lexerErrors.map(({ code, message, line, column }) =>
+				createDiagnostic(
+					code,
+					message,
+					lineRange(line, column, column + 1),
+					code === DiagnosticCode.UnclosedComment ? { fixes: [this.closeCommentFix(line)] } : {}
+				)
+			)
+		].sort((a, b) => a.line - b.line || a.column - b.column);
 	}
 }
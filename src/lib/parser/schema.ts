@@ -0,0 +1,289 @@
+/**
+ * CTIW Property Schema
+ *
+ * Which properties each element accepts:
+ * - HTML attributes that only mean something on some elements, like href on
+ *   =link= or src and alt on =img= (see ELEMENT_ATTRIBUTES)
+ * - Attributes every element has, like id and title (see GLOBAL_ATTRIBUTES)
+ * - Styles, which work on every element: the CTIW ones like text-color and
+ *   size, and CSS properties (see STYLE_PROPERTIES)
+ *
+ * Codegen uses it to decide what becomes an attribute and what becomes CSS,
+ * validateProperties() warns about properties that don't fit their element,
+ * and the editor suggests the properties an element accepts.
+ *
+ * @module parser/schema
+ */
+
+import type { CTIWElementType, CTIWNode, DocumentNode } from './ast';
+import { isElementNode, isErrorNode } from './ast';
+import { findClosest } from './suggest';
+import { isKnownElement } from './elements';
+import { DiagnosticCode, createDiagnostic, type Diagnostic } from './diagnostics';
+
+/** What a property is on an element */
+export type PropertyRole =
+	/** An HTML attribute of the element */
+	| 'attribute'
+	/** A style (CSS) */
+	| 'style'
+	/** An HTML attribute of other elements, which does nothing here */
+	| 'misplaced'
+	/** Not a property CTIW knows (passed through as CSS) */
+	| 'unknown';
+
+/** How a property is shown in the editor */
+export interface PropertyDefinition {
+	/** An emoji for it */
+	emoji: string;
+	/** What it does */
+	description: string;
+	/** The property to use instead, for older properties */
+	replacedBy?: string;
+}
+
+/**
+ * HTML attributes for each element that has its own
+ */
+export const ELEMENT_ATTRIBUTES: Readonly<Record<string, readonly string[]>> = {
+	link: ['href', 'target', 'rel', 'download'],
+	a: ['href', 'target', 'rel', 'download'],
+	img: ['src', 'alt', 'width', 'height'],
+	video: ['src', 'poster', 'width', 'height', 'autoplay', 'controls', 'loop', 'muted'],
+	audio: ['src', 'autoplay', 'controls', 'loop', 'muted'],
+	iframe: ['src', 'width', 'height'],
+	canvas: ['width', 'height'],
+	input: [
+		'placeholder', 'value', 'name', 'type', 'required', 'disabled', 'readonly', 'autofocus',
+		'autocomplete', 'maxlength', 'minlength', 'pattern', 'min', 'max', 'step'
+	],
+	password: [
+		'placeholder', 'name', 'required', 'disabled', 'readonly', 'autofocus', 'autocomplete',
+		'maxlength', 'minlength', 'pattern'
+	],
+	textarea: [
+		'placeholder', 'name', 'required', 'disabled', 'readonly', 'autofocus', 'maxlength',
+		'minlength', 'rows', 'cols'
+	],
+	checkbox: ['name', 'value', 'checked', 'required', 'disabled'],
+	radio: ['name', 'value', 'checked', 'required', 'disabled'],
+	select: ['name', 'required', 'disabled', 'autofocus'],
+	option: ['value', 'selected', 'disabled'],
+	button: ['type', 'name', 'value', 'disabled', 'autofocus'],
+	form: ['action', 'method', 'enctype', 'autocomplete'],
+	label: ['for'],
+	td: ['colspan', 'rowspan'],
+	th: ['colspan', 'rowspan', 'scope']
+};
+
+/**
+ * HTML attributes every element has (aria-* and data-* ones too)
+ */
+export const GLOBAL_ATTRIBUTES: ReadonlySet<string> = new Set([
+	'id', 'class', 'title', 'role', 'tabindex', 'hidden', 'lang'
+]);
+
+/**
+ * Styles every element accepts: CTIW's own, then CSS properties
+ */
+export const STYLE_PROPERTIES: ReadonlySet<string> = new Set([
+	// CTIW
+	'text-color', 'background-color', 'border-color', 'color', 'outline', 'in', 'size',
+	// CSS
+	'background', 'border', 'border-radius', 'border-width', 'border-style',
+	'border-top', 'border-bottom', 'border-left', 'border-right',
+	'font-size', 'font-family', 'font-weight', 'font-style', 'text-align', 'text-decoration',
+	'text-transform', 'text-shadow', 'line-height', 'letter-spacing', 'word-spacing', 'white-space',
+	'width', 'height', 'max-width', 'min-width', 'max-height', 'min-height',
+	'margin', 'margin-top', 'margin-bottom', 'margin-left', 'margin-right',
+	'padding', 'padding-top', 'padding-bottom', 'padding-left', 'padding-right',
+	'display', 'flex', 'flex-direction', 'flex-wrap', 'justify-content', 'align-items', 'align-self',
+	'gap', 'grid', 'grid-template-columns', 'grid-template-rows',
+	'position', 'top', 'left', 'right', 'bottom', 'z-index', 'float', 'clear',
+	'opacity', 'visibility', 'overflow', 'transform', 'transition', 'animation', 'cursor',
+	'box-shadow', 'box-sizing', 'list-style', 'vertical-align', 'object-fit', 'filter',
+	'outline-color', 'caret-color', 'accent-color'
+]);
+
+/**
+ * The properties the editor suggests, in the order it suggests them
+ * (along with the element's own attributes)
+ */
+export const PROPERTY_DEFINITIONS: Readonly<Record<string, PropertyDefinition>> = {
+	// Every element
+	id: { emoji: '🏷️', description: 'Give your element a unique name' },
+	'text-color': { emoji: '🖍️', description: 'Color the words (a name like red or sky, or a code like FF0000)' },
+	'background-color': {
+		emoji: '🎨',
+		description: 'Color the background (a name like red or sky, or a code like FF0000)'
+	},
+	'border-color': { emoji: '🖼️', description: 'Draw a colored border around it' },
+	color: { emoji: '🎨', description: 'Color the background', replacedBy: 'background-color' },
+	outline: { emoji: '👁️', description: 'Show or hide the element outline' },
+	'font-size': { emoji: '🔤', description: 'Change the text size' },
+	in: { emoji: '📍', description: 'Position the element (left, middle, or right)' },
+	size: {
+		emoji: '📐',
+		description: 'Make it bigger or smaller (words get bigger, boxes and pictures get wider)'
+	},
+	title: { emoji: '💬', description: 'Words that pop up when you point at it' },
+	// Some elements
+	href: { emoji: '🔗', description: 'Where the link goes' },
+	target: { emoji: '🪟', description: 'Where the link opens (_blank for a new tab)' },
+	src: { emoji: '📁', description: 'The picture or file to show' },
+	alt: { emoji: '💬', description: 'Words that describe the picture' },
+	placeholder: { emoji: '✏️', description: 'Hint words shown before anyone types' },
+	value: { emoji: '📝', description: 'What it starts out holding' },
+	name: { emoji: '🏷️', description: 'The name it is sent with' },
+	required: { emoji: '❗', description: 'It has to be filled in (yes or no)' },
+	disabled: { emoji: '🚫', description: "It can't be used (yes or no)" },
+	checked: { emoji: '☑️', description: 'Starts out checked (yes or no)' },
+	autoplay: { emoji: '▶️', description: 'Start playing right away (yes or no)' },
+	controls: { emoji: '⏯️', description: 'Show play and pause buttons (yes or no)' },
+	loop: { emoji: '🔁', description: 'Play again when it ends (yes or no)' }
+};
+
+/**
+ * Check what a property is on an element
+ *
+ * @example
+ * propertyRole('link', 'href') // 'attribute'
+ * propertyRole('button', 'href') // 'misplaced'
+ * propertyRole('divide', 'width') // 'style'
+ */
+export function propertyRole(elementType: CTIWElementType, property: string): PropertyRole {
+	const name = property.toLowerCase();
+	if (elementAttributes(elementType).includes(name) || isGlobalAttribute(name)) {
+		return 'attribute';
+	}
+	if (STYLE_PROPERTIES.has(name)) {
+		return 'style';
+	}
+	if (isAnyAttribute(name)) {
+		// Elements CTIW doesn't know keep the attributes they're given
+		return isKnownElement(elementType) ? 'misplaced' : 'attribute';
+	}
+	return 'unknown';
+}
+
+/**
+ * The properties an element accepts that the editor should suggest:
+ * its own attributes first, then the ones every element has
+ */
+export function propertiesFor(elementType: CTIWElementType): string[] {
+	const own = elementAttributes(elementType).filter((name) => Object.hasOwn(PROPERTY_DEFINITIONS, name));
+	const everywhere = Object.keys(PROPERTY_DEFINITIONS).filter(
+		(name) => !isAnyAttribute(name) && !PROPERTY_DEFINITIONS[name].replacedBy
+	);
+	return [...own, ...everywhere];
+}
+
+/**
+ * Warn about properties that don't fit their element: ones CTIW doesn't
+ * know (with the closest one it does) and attributes of other elements
+ */
+export function validateProperties(document: DocumentNode): Diagnostic[] {
+	const warnings: Diagnostic[] = [];
+
+	const visit = (nodes: CTIWNode[]) => {
+		for (const node of nodes) {
+			if (isErrorNode(node)) {
+				visit(node.children);
+				continue;
+			}
+			if (!isElementNode(node)) {
+				continue;
+			}
+
+			for (const property of Object.keys(node.properties)) {
+				const warning = propertyWarning(node.elementType, property);
+				if (!warning) {
+					continue;
+				}
+				const key = node.propertyLocations?.[property]?.key;
+				const fixes =
+					key && warning.suggestion
+						? [{ title: `Change it to ${warning.suggestion}=`, edits: [{ range: key, text: warning.suggestion }] }]
+						: undefined;
+				warnings.push(createDiagnostic(warning.code, warning.message, key ?? node.location, fixes ? { fixes } : {}));
+			}
+			visit(node.children);
+		}
+	};
+	visit(document.children);
+
+	return warnings;
+}
+
+/**
+ * The warning for a property that doesn't fit its element, or null if it does
+ */
+function propertyWarning(
+	elementType: CTIWElementType,
+	property: string
+): { code: DiagnosticCode; message: string; suggestion?: string } | null {
+	const role = propertyRole(elementType, property);
+
+	if (role === 'misplaced') {
+		const owners = Object.keys(ELEMENT_ATTRIBUTES)
+			.filter((element) => ELEMENT_ATTRIBUTES[element].includes(property.toLowerCase()))
+			.map((element) => `=${element}=`);
+		return {
+			code: DiagnosticCode.MisplacedProperty,
+			message: `${property}= doesn't do anything on =${elementType}=. It works on ${joinWords(owners)}`
+		};
+	}
+
+	if (role === 'unknown') {
+		const candidates = [
+			...elementAttributes(elementType),
+			...Object.keys(PROPERTY_DEFINITIONS),
+			...GLOBAL_ATTRIBUTES,
+			...STYLE_PROPERTIES
+		];
+		// Older properties like color= aren't suggested, just like in propertiesFor()
+		const suggestion = findClosest(
+			property,
+			candidates.filter((name) => !PROPERTY_DEFINITIONS[name]?.replacedBy)
+		);
+		if (!suggestion) {
+			return { code: DiagnosticCode.UnknownProperty, message: `Hmm, I don't know what ${property}= does` };
+		}
+		return {
+			code: DiagnosticCode.UnknownProperty,
+			message: `Hmm, I don't know what ${property}= does. Did you mean ${suggestion}=?`,
+			suggestion
+		};
+	}
+
+	return null;
+}
+
+/**
+ * The attributes of an element (none for elements without their own)
+ */
+function elementAttributes(elementType: CTIWElementType): readonly string[] {
+	const name = elementType.toLowerCase();
+	return Object.hasOwn(ELEMENT_ATTRIBUTES, name) ? ELEMENT_ATTRIBUTES[name] : [];
+}
+
+/**
+ * Check if a property is an attribute every element has
+ */
+function isGlobalAttribute(name: string): boolean {
+	return GLOBAL_ATTRIBUTES.has(name) || name.startsWith('aria-') || name.startsWith('data-');
+}
+
+/**
+ * Check if a property is an attribute of any element
+ */
+function isAnyAttribute(name: string): boolean {
+	return Object.values(ELEMENT_ATTRIBUTES).some((attributes) => attributes.includes(name));
+}
+
+/**
+ * Join words into a list: a, b and c
+ */
+function joinWords(words: string[]): string {
+	return words.length > 1 ? `${words.slice(0, -1).join(', ')} and ${words[words.length - 1]}` : words[0];
+}
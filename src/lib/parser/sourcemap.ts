@@ -0,0 +1,152 @@
+/**
+ * CTIW Source Maps
+ *
+ * Links the HTML and CSS that codegen writes back to the CTIW lines they
+ * came from, so the preview can point at the editor. There are two ways:
+ * - data-ctiw-line and data-ctiw-column attributes on each element's tag
+ *   (easy to read in the page, like when a kid clicks something)
+ * - a standard (version 3) source map, for browser dev tools and anything
+ *   else that reads them
+ *
+ * Lines and columns start at 1, like everywhere else in CTIW, and are
+ * turned into the 0-based ones source maps use when encoding.
+ *
+ * @module parser/sourcemap
+ */
+
+import type { SourcePosition } from './ast';
+
+/** The attribute holding the CTIW line an element came from */
+export const SOURCE_LINE_ATTRIBUTE = 'data-ctiw-line';
+
+/** The attribute holding the CTIW column an element came from */
+export const SOURCE_COLUMN_ATTRIBUTE = 'data-ctiw-column';
+
+/** A spot in the generated code that came from a spot in the CTIW code */
+export interface SourceMapping {
+	generated: SourcePosition;
+	original: SourcePosition;
+}
+
+/** What to call things in a source map */
+export interface SourceMapOptions {
+	/** The name of the generated file */
+	file?: string;
+	/** The name of the CTIW file (page.ctiw by default) */
+	sourceName?: string;
+	/** The CTIW code itself, so tools can show it without loading it */
+	sourceContent?: string;
+}
+
+/** A version 3 source map (https://sourcemaps.info/spec.html) */
+export interface SourceMapV3 {
+	version: 3;
+	file?: string;
+	sources: string[];
+	sourcesContent?: string[];
+	names: string[];
+	mappings: string;
+}
+
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/**
+ * Encode a number as a base 64 VLQ, the way source map mappings are written
+ *
+ * @example
+ * encodeVLQ(0)  // 'A'
+ * encodeVLQ(-1) // 'D'
+ * encodeVLQ(16) // 'gB'
+ */
+export function encodeVLQ(value: number): string {
+	// The sign goes in the lowest bit
+	let rest = value < 0 ? (-value << 1) | 1 : value << 1;
+	let encoded = '';
+
+	do {
+		let digit = rest & 31;
+		rest >>>= 5;
+		if (rest > 0) {
+			digit |= 32;
+		}
+		encoded += BASE64[digit];
+	} while (rest > 0);
+
+	return encoded;
+}
+
+/**
+ * Create a source map from mappings into one CTIW file
+ *
+ * @example
+ * createSourceMap([{ generated: { line: 12, column: 3 }, original: { line: 2, column: 1 } }])
+ * // { version: 3, sources: ['page.ctiw'], names: [], mappings: ';;;;;;;;;;;EACA' }
+ */
+export function createSourceMap(mappings: SourceMapping[], options: SourceMapOptions = {}): SourceMapV3 {
+	const sorted = [...mappings].sort(
+		(a, b) => a.generated.line - b.generated.line || a.generated.column - b.generated.column
+	);
+
+	// Every field but the generated column carries on from the segment before it
+	const lines: string[] = [];
+	let originalLine = 0;
+	let originalColumn = 0;
+	let generatedLine = 1;
+	let segments: string[] = [];
+	let generatedColumn = 0;
+
+	for (const { generated, original } of sorted) {
+		while (generatedLine < generated.line) {
+			lines.push(segments.join(','));
+			segments = [];
+			generatedColumn = 0;
+			generatedLine++;
+		}
+
+		segments.push(
+			encodeVLQ(generated.column - 1 - generatedColumn) +
+				encodeVLQ(0) +
+				encodeVLQ(original.line - 1 - originalLine) +
+				encodeVLQ(original.column - 1 - originalColumn)
+		);
+		generatedColumn = generated.column - 1;
+		originalLine = original.line - 1;
+		originalColumn = original.column - 1;
+	}
+	lines.push(segments.join(','));
+
+	return {
+		version: 3,
+		...(options.file ? { file: options.file } : {}),
+		sources: [options.sourceName ?? 'page.ctiw'],
+		...(options.sourceContent !== undefined ? { sourcesContent: [options.sourceContent] } : {}),
+		names: [],
+		mappings: lines.join(';')
+	};
+}
+
+/**
+ * Find where a spot in a piece of text is, as a line and column
+ */
+export function positionAt(text: string, offset: number): SourcePosition {
+	const before = text.slice(0, offset);
+	const lineStart = before.lastIndexOf('\n') + 1;
+
+	return { line: before.split('\n').length, column: offset - lineStart + 1 };
+}
+
+/**
+ * Find the CTIW positions codegen marked on the tags in some HTML (with the
+ * sourceMap option), as mappings from where each tag starts
+ */
+export function findSourceAttributes(html: string): SourceMapping[] {
+	const pattern = new RegExp(
+		`<[a-zA-Z][\\w-]* ${SOURCE_LINE_ATTRIBUTE}="(\\d+)" ${SOURCE_COLUMN_ATTRIBUTE}="(\\d+)"`,
+		'g'
+	);
+
+	return [...html.matchAll(pattern)].map((match) => ({
+		generated: positionAt(html, match.index),
+		original: { line: Number(match[1]), column: Number(match[2]) }
+	}));
+}
@@ -0,0 +1,264 @@
+/**
+ * CTIW Styles
+ *
+ * Turns an element's style properties into CSS, in two steps:
+ * 1. Resolving: the properties become a list of CSS declarations, like
+ *    text-color=red= becoming color: red (one table says what each means)
+ * 2. Emitting: a strategy decides where the declarations go, as a #id rule,
+ *    a generated class, a style attribute, or CSS custom properties
+ *
+ * @module parser/styles
+ */
+
+import type { ElementNode, CTIWElementType, TypedValue } from './ast';
+import { elementValue, formatCSSValue, isSizeName, type SizeName } from './values';
+import { propertyRole } from './schema';
+import { sanitizeId } from './ids';
+
+/** One CSS declaration, like color: red */
+export interface CSSDeclaration {
+	property: string;
+	value: string;
+}
+
+/** A CSS rule: a selector and its declarations */
+export interface StyleRule {
+	selector: string;
+	declarations: CSSDeclaration[];
+}
+
+/**
+ * Where an element's styles go:
+ * - id: a #id rule, or a class for elements without an id
+ * - class: a rule for a class named after the styles (so the same styles share one)
+ * - inline: a style attribute (easy to copy and paste along with the tag)
+ * - custom-properties: like id, with each value in a --ctiw- custom property
+ *   (so scripts can change it)
+ */
+export type StyleStrategy = 'id' | 'class' | 'inline' | 'custom-properties';
+
+/** What an element gets for its styles */
+export interface StyleEmission {
+	/** A class to add to its tag */
+	className?: string;
+	/** Declarations for its style attribute */
+	inline?: CSSDeclaration[];
+	/** A rule for the style block */
+	rule?: StyleRule;
+}
+
+/** Decides where an element's declarations go (id is the one it's written with, if any) */
+export type StyleEmitter = (
+	element: ElementNode,
+	declarations: CSSDeclaration[],
+	id: string | null
+) => StyleEmission;
+
+/** Turns a property's value into CSS declarations */
+type StyleResolver = (value: TypedValue, element: ElementNode) => CSSDeclaration[];
+
+/** What size= changes: the words, a picture, or a box */
+type SizeTarget = 'text' | 'picture' | 'box';
+
+/**
+ * Elements where size= makes the words bigger or smaller
+ */
+const TEXT_SIZED_ELEMENTS = new Set([
+	'title', 'text', 'heading', 'subheading', 'button', 'link', 'input', 'password',
+	'p', 'span', 'a', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'li', 'label',
+	'strong', 'em', 'b', 'i', 'u', 'code', 'pre', 'blockquote'
+]);
+
+/**
+ * Elements where size= scales the picture (everything else is a box)
+ */
+const PICTURE_SIZED_ELEMENTS = new Set(['img', 'video', 'canvas', 'iframe']);
+
+/**
+ * What each named size means for words (font size), pictures and boxes (width)
+ */
+const NAMED_SIZES: Record<SizeTarget, Record<SizeName, string>> = {
+	text: { tiny: '10px', small: '14px', medium: '18px', big: '32px', huge: '56px' },
+	picture: { tiny: '50px', small: '100px', medium: '200px', big: '400px', huge: '100%' },
+	box: { tiny: '20%', small: '40%', medium: '60%', big: '80%', huge: '100%' }
+};
+
+/**
+ * Get the CSS declaration for size=, which depends on the element:
+ * text gets bigger, pictures and boxes get wider
+ */
+function sizeStyle(elementType: CTIWElementType, value: TypedValue): CSSDeclaration {
+	const target: SizeTarget = TEXT_SIZED_ELEMENTS.has(elementType)
+		? 'text'
+		: PICTURE_SIZED_ELEMENTS.has(elementType)
+			? 'picture'
+			: 'box';
+
+	const css =
+		value.kind === 'keyword' && isSizeName(value.value)
+			? NAMED_SIZES[target][value.value]
+			: formatCSSValue(value);
+	return { property: target === 'text' ? 'font-size' : 'width', value: css };
+}
+
+/**
+ * Properties that draw an element's border (so border-color= doesn't need to)
+ */
+const BORDER_PROPERTIES = ['border', 'outline', 'border-width', 'border-style'];
+
+/**
+ * Check if an element draws its own border
+ */
+function hasBorder(element: ElementNode): boolean {
+	return BORDER_PROPERTIES.some((property) => Object.hasOwn(element.properties, property));
+}
+
+/**
+ * CTIW properties that don't mean the CSS property with their name: either
+ * the CSS property the value goes to, or how to turn the value into CSS.
+ * Other style properties are CSS properties already.
+ */
+const STYLE_RESOLVERS: Readonly<Record<string, string | StyleResolver>> = {
+	'text-color': 'color',
+	color: 'background-color', // Older documents, from before background-color= and text-color=
+	in: (value) => {
+		const css = formatCSSValue(value);
+		return [{ property: 'text-align', value: css === 'middle' ? 'center' : css }];
+	},
+	// Without the shorthand when there's a border-color=, so it keeps its color
+	outline: (value, element) => {
+		if (formatCSSValue(value) !== 'visible') {
+			return [{ property: 'border', value: 'none' }];
+		}
+		return Object.hasOwn(element.properties, 'border-color')
+			? [
+					{ property: 'border-width', value: '1px' },
+					{ property: 'border-style', value: 'solid' }
+				]
+			: [{ property: 'border', value: '1px solid black' }];
+	},
+	size: (value, element) => [sizeStyle(element.elementType, value)],
+	// A border color on its own would have no border to color, so it gets one
+	'border-color': (value, element) => [
+		...(hasBorder(element)
+			? []
+			: [
+					{ property: 'border-width', value: '2px' },
+					{ property: 'border-style', value: 'solid' }
+				]),
+		{ property: 'border-color', value: formatCSSValue(value) }
+	]
+};
+
+/**
+ * Get the CSS declarations for an element's style properties (properties
+ * with values that aren't valid are left out)
+ *
+ * @example
+ * resolveStyles(element) // for =text=Hi= text-color=red= in=middle=
+ * // [{ property: 'color', value: 'red' }, { property: 'text-align', value: 'center' }]
+ */
+export function resolveStyles(element: ElementNode): CSSDeclaration[] {
+	const declarations: CSSDeclaration[] = [];
+
+	for (const [key, value] of Object.entries(element.properties)) {
+		if (value === undefined || value === null) continue;
+		// Attributes go on the tag, and attributes of other elements nowhere
+		const role = propertyRole(element.elementType, key);
+		if (role === 'attribute' || role === 'misplaced') continue;
+
+		const typed = elementValue(element, key);
+		if (!typed) continue;
+
+		const resolver = STYLE_RESOLVERS[key] ?? key;
+		if (typeof resolver !== 'string') {
+			declarations.push(...resolver(typed, element));
+		} else if (/^[a-z][a-z0-9-]*$/i.test(resolver)) {
+			// Only output if it looks like a valid CSS property (letters, numbers and hyphens)
+			declarations.push({ property: resolver, value: formatCSSValue(typed) });
+		}
+	}
+
+	return declarations;
+}
+
+/**
+ * Write declarations the way they go in a rule or a style attribute
+ *
+ * @example
+ * formatDeclarations([{ property: 'color', value: 'red' }, { property: 'border', value: 'none' }])
+ * // 'color: red; border: none'
+ */
+export function formatDeclarations(declarations: CSSDeclaration[]): string {
+	return declarations.map(({ property, value }) => `${property}: ${value}`).join('; ');
+}
+
+/**
+ * Write a rule for the style block, like "#box { color: red; }"
+ */
+export function formatRule(rule: StyleRule): string {
+	return `${rule.selector} { ${formatDeclarations(rule.declarations)}; }`;
+}
+
+/**
+ * Name a class after some declarations, so the same styles always get the
+ * same name (a 32-bit FNV-1a hash)
+ *
+ * @example
+ * styleClassName([{ property: 'color', value: 'red' }]) // 'ctiw-' and a few letters and numbers
+ */
+export function styleClassName(declarations: CSSDeclaration[]): string {
+	const text = formatDeclarations(declarations);
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < text.length; i++) {
+		hash ^= text.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return `ctiw-${(hash >>> 0).toString(36)}`;
+}
+
+/**
+ * A rule for a class named after the declarations
+ */
+function classRule(declarations: CSSDeclaration[]): StyleEmission {
+	const className = styleClassName(declarations);
+	return { className, rule: { selector: `.${className}`, declarations } };
+}
+
+/**
+ * A #id rule for elements with an id, and a class for the others
+ */
+function idOrClass(declarations: CSSDeclaration[], id: string | null): StyleEmission {
+	return id ? { rule: { selector: `#${id}`, declarations } } : classRule(declarations);
+}
+
+/**
+ * How each strategy emits an element's styles
+ */
+export const STYLE_EMITTERS: Readonly<Record<StyleStrategy, StyleEmitter>> = {
+	id: (_element, declarations, id) => idOrClass(declarations, id),
+	class: (_element, declarations) => classRule(declarations),
+	inline: (_element, declarations) => ({ inline: declarations }),
+	'custom-properties': (_element, declarations, id) =>
+		idOrClass(
+			declarations.flatMap(({ property, value }) => [
+				{ property: `--ctiw-${property}`, value },
+				{ property, value: `var(--ctiw-${property})` }
+			]),
+			id
+		)
+};
+
+/**
+ * Resolve an element's styles and emit them with a strategy (nothing when
+ * it has no styles). The id is the one the element is written with: its
+ * own made valid, unless codegen gave it another.
+ */
+export function emitStyles(
+	element: ElementNode,
+	strategy: StyleStrategy = 'id',
+	id: string | null = element.properties.id ? sanitizeId(element.properties.id) : null
+): StyleEmission {
+	const declarations = resolveStyles(element);
+	return declarations.length > 0 ? STYLE_EMITTERS[strategy](element, declarations, id) : {};
+}
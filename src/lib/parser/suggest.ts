@@ -0,0 +1,61 @@
+/**
+ * CTIW Suggestions
+ *
+ * Finds the word a kid most likely meant when they misspell one (bleu for
+ * blue, purpel for purple), for messages like "Did you mean blue?".
+ *
+ * @module parser/suggest
+ */
+
+/**
+ * Find the candidate closest to a misspelled word, or null if none is close
+ * enough to be a likely typo. Earlier candidates win ties.
+ *
+ * @example
+ * findClosest('bleu', ['red', 'blue']) // 'blue'
+ * findClosest('zzz', ['red', 'blue']) // null
+ */
+export function findClosest(word: string, candidates: Iterable<string>): string | null {
+	const target = word.toLowerCase();
+	// Short words get one typo, longer ones two (and one or two letters are
+	// too short to guess from)
+	const allowed = target.length <= 2 ? 0 : target.length <= 4 ? 1 : 2;
+
+	let best: string | null = null;
+	let bestDistance = allowed + 1;
+	for (const candidate of candidates) {
+		const distance = editDistance(target, candidate.toLowerCase());
+		if (distance < bestDistance) {
+			best = candidate;
+			bestDistance = distance;
+		}
+	}
+	return best;
+}
+
+/**
+ * Count the typos between two words: letters added, removed, changed or
+ * swapped with their neighbor
+ */
+function editDistance(a: string, b: string): number {
+	if (Math.abs(a.length - b.length) > 2) {
+		return Infinity;
+	}
+
+	// rows[i][j] is the distance between the first i letters of a and the first j of b
+	const rows: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i]);
+	for (let j = 1; j <= b.length; j++) {
+		rows[0][j] = j;
+	}
+
+	for (let i = 1; i <= a.length; i++) {
+		for (let j = 1; j <= b.length; j++) {
+			const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+			rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+			if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+				rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+			}
+		}
+	}
+	return rows[a.length][b.length];
+}
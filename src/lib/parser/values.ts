@@ -0,0 +1,270 @@
+/**
+ * CTIW Property Values
+ *
+ * Turns property values as written (color=FF0000=, size=50%=, disabled=yes=)
+ * into typed values, checking each one against what its property expects:
+ * - Colors: color, background and anything ending in -color (see colors.ts)
+ * - Sizes: size takes a length or a named size (tiny, small, medium, big, huge)
+ * - Lengths: width, margin, font-size, ... (a plain number means px)
+ * - Numbers: opacity, z-index, line-height
+ * - Keywords: outline (visible/invisible) and in (left/middle/center/right)
+ * - URLs: href, src, ... (only web, email and same-site links)
+ * - Yes/no settings: disabled, required, checked, ...
+ * - Anything else is text
+ *
+ * The parser reports the messages for values that don't fit, and codegen
+ * turns typed values into CSS with formatCSSValue().
+ *
+ * @module parser/values
+ */
+
+import type { ElementNode, TypedValue, LengthUnit, PropertyValue } from './ast';
+import { parseColor } from './colors';
+
+/**
+ * A checked value, or a friendly message saying what's wrong with it (and
+ * the value that was most likely meant, for typos)
+ */
+export type ValueResult =
+	| { ok: true; value: TypedValue }
+	| { ok: false; message: string; suggestion?: string };
+
+/** The fixed choices for keyword properties */
+export const KEYWORD_PROPERTIES: Readonly<Record<string, readonly string[]>> = {
+	outline: ['visible', 'invisible'],
+	in: ['left', 'middle', 'center', 'right']
+};
+
+/** Named sizes for size=, smallest first */
+export const SIZE_NAMES = ['tiny', 'small', 'medium', 'big', 'huge'] as const;
+
+/** A named size, like big */
+export type SizeName = (typeof SIZE_NAMES)[number];
+
+/** Properties that take a length */
+export const LENGTH_PROPERTIES: ReadonlySet<string> = new Set([
+	'font-size', 'width', 'height', 'gap', 'border-radius', 'letter-spacing',
+	'margin', 'margin-top', 'margin-bottom', 'margin-left', 'margin-right',
+	'padding', 'padding-top', 'padding-bottom', 'padding-left', 'padding-right',
+	'top', 'left', 'right', 'bottom', 'line-height',
+	'max-width', 'min-width', 'max-height', 'min-height'
+]);
+
+/** Properties that take a plain number */
+const NUMBER_PROPERTIES: ReadonlySet<string> = new Set(['opacity', 'z-index', 'line-height']);
+
+/** Properties that take a link or file address */
+const URL_PROPERTIES: ReadonlySet<string> = new Set(['href', 'src', 'poster', 'action']);
+
+/** Properties that are yes/no settings */
+const BOOLEAN_PROPERTIES: ReadonlySet<string> = new Set([
+	'disabled', 'readonly', 'checked', 'selected', 'required', 'autofocus',
+	'autoplay', 'controls', 'loop', 'muted', 'hidden'
+]);
+
+/** Words that mean yes or no */
+const BOOLEAN_WORDS: Readonly<Record<string, boolean>> = {
+	'': true,
+	yes: true,
+	true: true,
+	on: true,
+	no: false,
+	false: false,
+	off: false
+};
+
+/** CSS words a length property can have instead of a length */
+const LENGTH_KEYWORDS: ReadonlySet<string> = new Set([
+	'auto', 'none', 'inherit', 'initial', 'fit-content', 'max-content', 'min-content'
+]);
+
+const LENGTH_PATTERN = /^(-?\d+(?:\.\d+)?|-?\.\d+)(px|%|em|rem|vw|vh|pt)?$/i;
+const NUMBER_PATTERN = /^-?(\d+(\.\d+)?|\.\d+)$/;
+
+/**
+ * Check if a property takes a color
+ */
+export function isColorProperty(property: string): boolean {
+	const name = property.toLowerCase();
+	return name === 'color' || name === 'background' || name.endsWith('-color');
+}
+
+/**
+ * Check if a word is one of the named sizes
+ */
+export function isSizeName(word: string): word is SizeName {
+	return (SIZE_NAMES as readonly string[]).includes(word);
+}
+
+/**
+ * Check if a link or file address is safe to use: web and email links, and
+ * addresses within the site (no javascript: or other schemes)
+ */
+export function isSafeUrl(url: string): boolean {
+	const scheme = url.match(/^([a-z][a-z0-9+.-]*):/i)?.[1].toLowerCase();
+	return scheme === undefined || scheme === 'http' || scheme === 'https' || scheme === 'mailto';
+}
+
+/**
+ * Check a property's value and give it its type
+ *
+ * @example
+ * parseValue('size', '50%') // { ok: true, value: { kind: 'length', value: 50, unit: '%' } }
+ * parseValue('color', 'BAF2Y9') // { ok: false, message: "BAF2Y9 isn't a real color, Y isn't a hex digit" }
+ */
+export function parseValue(property: string, written: PropertyValue): ValueResult {
+	const name = property.toLowerCase();
+	const raw = written === null ? '' : String(written).trim();
+
+	if (BOOLEAN_PROPERTIES.has(name)) {
+		return parseBoolean(raw);
+	}
+	if (raw === '') {
+		return { ok: true, value: { kind: 'text', value: '' } };
+	}
+
+	if (Object.hasOwn(KEYWORD_PROPERTIES, name)) {
+		return parseKeyword(name, raw, KEYWORD_PROPERTIES[name]);
+	}
+	if (isColorProperty(name)) {
+		const color = parseColor(raw);
+		return color.ok ? { ok: true, value: { kind: 'color', css: color.css } } : color;
+	}
+	if (name === 'size') {
+		return parseSize(raw);
+	}
+	// line-height takes either, and a plain number there has no unit
+	if (NUMBER_PROPERTIES.has(name) && (NUMBER_PATTERN.test(raw) || !LENGTH_PROPERTIES.has(name))) {
+		return parseNumber(raw);
+	}
+	if (LENGTH_PROPERTIES.has(name)) {
+		return parseLengths(raw);
+	}
+	if (URL_PROPERTIES.has(name)) {
+		return isSafeUrl(raw)
+			? { ok: true, value: { kind: 'url', value: raw } }
+			: { ok: false, message: `Links can only go to web pages, like https://example.com` };
+	}
+	return { ok: true, value: { kind: 'text', value: raw } };
+}
+
+/**
+ * Get an element's property as a typed value: the one the parser checked,
+ * or (for elements built without the parser) checked now. Null if it isn't
+ * valid.
+ */
+export function elementValue(element: ElementNode, property: string): TypedValue | null {
+	const checked = element.values?.[property];
+	if (checked) {
+		return checked;
+	}
+	const result = parseValue(property, element.properties[property] ?? null);
+	return result.ok ? result.value : null;
+}
+
+/**
+ * Turn a typed value into CSS
+ */
+export function formatCSSValue(value: TypedValue): string {
+	switch (value.kind) {
+		case 'color':
+			return value.css;
+		case 'length':
+			return `${value.value}${value.unit}`;
+		case 'number':
+		case 'boolean':
+			return String(value.value);
+		default:
+			return value.value;
+	}
+}
+
+/**
+ * A length (100, 50%, 2em), a CSS word like auto, or a few of those in quotes
+ * for margins and padding ("10 20")
+ */
+function parseLengths(raw: string): ValueResult {
+	const parts = raw.split(/\s+/);
+	const lengths = parts.map(parseLength);
+	const bad = parts.find((_, index) => lengths[index] === null);
+	if (bad !== undefined) {
+		return {
+			ok: false,
+			message: `${bad} isn't a size. Use a number like 100, or a number and a unit like 50%`
+		};
+	}
+
+	const values = lengths as TypedValue[];
+	if (values.length === 1) {
+		return { ok: true, value: values[0] };
+	}
+	return { ok: true, value: { kind: 'text', value: values.map(formatCSSValue).join(' ') } };
+}
+
+/**
+ * A size: a named size like big, or a length (100, 50%)
+ */
+function parseSize(raw: string): ValueResult {
+	const word = raw.toLowerCase();
+	if (isSizeName(word)) {
+		return { ok: true, value: { kind: 'keyword', value: word } };
+	}
+	const length = parseLength(raw);
+	if (!length) {
+		return {
+			ok: false,
+			message: `${raw} isn't a size. Use a number like 100, a percent like 50%, or ${SIZE_NAMES.join(', ')}`
+		};
+	}
+	return { ok: true, value: length };
+}
+
+/**
+ * A single length, or null if it isn't one
+ */
+function parseLength(raw: string): TypedValue | null {
+	if (LENGTH_KEYWORDS.has(raw.toLowerCase())) {
+		return { kind: 'keyword', value: raw.toLowerCase() };
+	}
+	const match = raw.match(LENGTH_PATTERN);
+	if (!match) {
+		return null;
+	}
+	const unit = (match[2]?.toLowerCase() ?? 'px') as LengthUnit;
+	return { kind: 'length', value: Number(match[1]), unit };
+}
+
+/**
+ * A plain number like 0.5
+ */
+function parseNumber(raw: string): ValueResult {
+	if (!NUMBER_PATTERN.test(raw)) {
+		return { ok: false, message: `${raw} isn't a number` };
+	}
+	return { ok: true, value: { kind: 'number', value: Number(raw) } };
+}
+
+/**
+ * One of a property's fixed choices
+ */
+function parseKeyword(property: string, raw: string, keywords: readonly string[]): ValueResult {
+	const word = raw.toLowerCase();
+	if (!keywords.includes(word)) {
+		return {
+			ok: false,
+			message: `${raw} isn't a choice for ${property}. Try: ${keywords.join(', ')}`
+		};
+	}
+	return { ok: true, value: { kind: 'keyword', value: word } };
+}
+
+/**
+ * A yes/no setting (just writing the property means yes)
+ */
+function parseBoolean(raw: string): ValueResult {
+	const word = raw.toLowerCase();
+	if (!Object.hasOwn(BOOLEAN_WORDS, word)) {
+		return { ok: false, message: `${raw} should be yes or no` };
+	}
+	return { ok: true, value: { kind: 'boolean', value: BOOLEAN_WORDS[word] } };
+}
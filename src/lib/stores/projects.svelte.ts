@@ -50,7 +50,7 @@ const DEFAULT_PROJECTS: Project[] = [
 
 =text=Hi! I made this page with CTIW!=
 
-=divide= id:box= color=ADD8E6=
+=divide= id:box= background-color=ADD8E6=
 .. =text=This is inside a blue box!=
 .. =button=Click Me!=
 =divide=
@@ -66,15 +66,15 @@ const DEFAULT_PROJECTS: Project[] = [
 		code: `=CTIW=
 =title=My Colorful Page=
 
-=divide= id:red= color=FF6B6B=
+=divide= id:red= background-color=FF6B6B=
 .. =text=This box is red!=
 =divide=
 
-=divide= id:green= color=4ECDC4=
+=divide= id:green= background-color=4ECDC4=
 .. =text=This box is green!=
 =divide=
 
-=divide= id:blue= color=45B7D1=
+=divide= id:blue= background-color=45B7D1=
 .. =text=This box is blue!=
 =divide=
 
@@ -1,6 +1,8 @@
 import { json, type RequestHandler } from '@sveltejs/kit';
 import { ANTHROPIC_API_KEY } from '$env/static/private';
 import Anthropic from '@anthropic-ai/sdk';
+import { parse } from '$lib/parser/parser';
+import { formatDiagnostic } from '$lib/parser/diagnostics';
 
 interface AssistRequest {
 	message: string;
@@ -71,20 +73,32 @@ CTIW supports ANY HTML element! Just use the element name:
 - =li=Item= - Creates list item
 - =ol= ... =ol= - Creates ordered list
 
+Names that aren't HTML elements (like a typo, =buton=) get a warning.
+To make your own element on purpose, put a dash in its name: =my-widget=
+
 ## Properties
 Properties customize elements. Add them after the content:
-=text=Hello= color=FF0000= size=24=
+=text=Hello= text-color=FF0000= size=24=
 
 ### Common Properties
-- color=RRGGBB= - Set background color (hex, 6 chars)
-- background=RRGGBB= - Set background color
-- id:name= - Give element an ID
+- text-color=red= - Color the words
+- background-color=sky= - Color the background
+- border-color=gold= - Draw a colored border
+- (color= is the old name for background-color= and gets a note - don't use it)
+- id:name= - Give element an ID (a letter, then letters, numbers, - and _; each id only once)
 - class:classname= - Add a CSS class
 - outline=visible= - Show border around element
 - in=middle= or in=left= or in=right= - Text alignment
+- size=big= - Bigger or smaller: tiny, small, medium, big, huge, a number or a percent.
+  Makes the words bigger on text, title and button; scales pictures; makes boxes wider
 - margin=number= - Set margin in pixels
 - padding=number= - Set padding in pixels
 
+### Element Settings
+Some properties only work on some elements (anywhere else they get a warning):
+- link: href=, target=     img: src=, alt=     input/password: placeholder=, required=yes=
+- button: disabled=yes=    video/audio: src=, controls=yes=, autoplay=yes=
+
 ### CSS Properties (pass-through)
 ANY CSS property works! Examples:
 - font-size=24= - Font size (24px)
@@ -98,15 +112,17 @@ ANY CSS property works! Examples:
 - transform=rotate(45deg)= - Transforms
 
 ### Color Examples
+Colors can be CSS names (red, orange, skyblue), kid-friendly names (sky, grass,
+sun, bubblegum, grape) or hex codes without # (FF0000, F00):
 FF0000=Red, 00FF00=Green, 0000FF=Blue, FFFF00=Yellow,
 FF00FF=Pink, 00FFFF=Cyan, FFA500=Orange, 800080=Purple
 
 ## Indentation (Nesting)
 Use dots (FOUR per level) to put elements inside containers:
 
-=divide= color=ADD8E6=
+=divide= background-color=ADD8E6=
 .... ==Inside the box!==
-.... =divide= color=FFD700=
+.... =divide= background-color=FFD700=
 ........ ==Nested deeper!==
 .... =divide=
 =divide=
@@ -119,12 +135,12 @@ Use dots (FOUR per level) to put elements inside containers:
 =divide=
 
 ### Colorful Box
-=divide= color=E6E6FA= outline=visible= padding=20=
+=divide= background-color=E6E6FA= outline=visible= padding=20=
 .... ==Content here==
 =divide=
 
 ### Navigation with Header
-=header= color=333333=
+=header= background-color=333333=
 .... =nav=
 ........ =link=Home= href:#home=
 ........ =link=About= href:#about=
@@ -150,7 +166,7 @@ Use dots (FOUR per level) to put elements inside containers:
 =divide=
 
 ### Styled Section
-=section= padding=20= border-radius=10= color=F0F0F0=
+=section= padding=20= border-radius=10= background-color=F0F0F0=
 .... =heading=About Us=
 .... ==We make cool stuff!==
 =section=
@@ -162,10 +178,22 @@ Use dots (FOUR per level) to put elements inside containers:
 4. Use .... (4 dots) for each level of nesting inside containers
 5. Every opening container needs a matching closing element
 6. Properties go AFTER the content, before the closing =
-7. Any HTML element works - just use its name!
+7. Any HTML element works - just use its name! Your own elements need a dash: =my-widget=
 8. Any CSS property works - just use its name!
 `;
 
+// The problems CTIW finds in the code, one per line with its code (empty when there are none)
+function describeProblems(code: string): string {
+	const problems = parse(code).errors;
+	if (problems.length === 0) {
+		return '';
+	}
+	return `
+
+CTIW found these problems (you can mention their codes, like CTIW0020):
+${problems.map(formatDiagnostic).join('\n')}`;
+}
+
 // Simple fallback responses for quick actions
 const QUICK_RESPONSES: Record<string, AssistResponse> = {
 	button: {
@@ -174,15 +202,15 @@ const QUICK_RESPONSES: Record<string, AssistResponse> = {
 	},
 	color: {
 		message: "Here's a colorful example with different colors:",
-		codeSnippet: `=divide= color=FF6B6B= outline=visible= padding=10=
+		codeSnippet: `=divide= background-color=FF6B6B= outline=visible= padding=10=
 .... ==Coral red box!==
 =divide=
 
-=divide= color=4ECDC4= outline=visible= padding=10=
+=divide= background-color=4ECDC4= outline=visible= padding=10=
 .... ==Teal box!==
 =divide=
 
-=divide= color=FFE66D= outline=visible= padding=10=
+=divide= background-color=FFE66D= outline=visible= padding=10=
 .... ==Yellow box!==
 =divide=`
 	}
@@ -230,7 +258,7 @@ Example: {"message": "Here's how to add a title!", "codeSnippet": "=title=My Coo
 My current code:
 \`\`\`
 ${code}
-\`\`\``;
+\`\`\`${describeProblems(code)}`;
 	} else if (action === 'explain') {
 		userMessage = `Please explain how CTIW works in a fun, simple way that an 8-year-old can understand. Reference my current code if helpful:
 \`\`\`
@@ -242,7 +270,7 @@ ${code}
 My current CTIW code:
 \`\`\`
 ${code}
-\`\`\``;
+\`\`\`${describeProblems(code)}`;
 	}
 
 	try {
@@ -1,13 +1,26 @@
 import { describe, it, expect } from 'vitest';
-import { generateHTML, generateCSS, generateElement } from '$lib/parser/codegen';
+import {
+	generateHTML,
+	generateCSS,
+	generateElement,
+	generateHTMLWithSourceMap,
+	generateParts,
+	assembleHTML,
+	collectAssets
+} from '$lib/parser/codegen';
 import {
 	createElement,
 	createDocument,
 	createSpecial,
+	createError,
+	createComment,
+	createLocation,
 	type DocumentNode,
 	type ElementNode,
 	type CTIWNode
 } from '$lib/parser/ast';
+import { parseInline } from '$lib/parser/inline';
+import { parse } from '$lib/parser/parser';
 
 describe('CTIW Code Generator', () => {
 	describe('generateHTML - Basic Document Structure', () => {
@@ -555,15 +568,13 @@ describe('CTIW Code Generator', () => {
 			expect(html).toContain('</body>');
 		});
 
-		it('handles elements without id (no CSS generated)', () => {
+		it('handles elements without id (styled through a generated class)', () => {
 			const element = createElement('divide', {
 				properties: { color: 'FF0000' }
 			});
 			const css = generateCSS([element]);
 
-			// Without an ID, we can't target it with CSS selector
-			// The element should still work but CSS won't be applied via ID
-			expect(css).toBe('');
+			expect(css).toMatch(/^\.ctiw-[a-z0-9]+ \{ background-color: #FF0000; \}$/);
 		});
 
 		it('handles special characters in content', () => {
@@ -664,11 +675,22 @@ describe('CTIW Code Generator', () => {
 			expect(html).toBe('<hr>');
 		});
 
-		it('applies inline styles to elements without id', () => {
+		it('gives elements without id a class for their styles', () => {
 			const element = createElement('section', {
 				properties: { color: 'FF0000', outline: 'visible' }
 			});
 			const html = generateElement(element);
+			const css = generateCSS([element]);
+
+			expect(html).toMatch(/^<section class="ctiw-[a-z0-9]+"><\/section>$/);
+			expect(css).toContain('background-color: #FF0000; border: 1px solid black;');
+		});
+
+		it('applies inline styles to elements without id when asked', () => {
+			const element = createElement('section', {
+				properties: { color: 'FF0000', outline: 'visible' }
+			});
+			const html = generateElement(element, '', { styles: 'inline' });
 
 			expect(html).toContain('style="');
 			expect(html).toContain('background-color: #FF0000');
@@ -696,7 +718,7 @@ describe('CTIW Code Generator', () => {
 			const element = createElement('span', {
 				properties: { 'font-size': 24, 'font-weight': 'bold' }
 			});
-			const html = generateElement(element);
+			const html = generateElement(element, '', { styles: 'inline' });
 
 			expect(html).toContain('style="');
 			expect(html).toContain('font-size: 24px');
@@ -717,4 +739,456 @@ describe('CTIW Code Generator', () => {
 			expect(html).toBe('<h3>Sub Section</h3>');
 		});
 	});
+
+	describe('generateElement - Error Placeholder', () => {
+		it('shows the broken line in a visible placeholder', () => {
+			const error = createError('Expected = after the name', '=button <Click>', createLocation(2, 1, 2, 16));
+			const html = generateElement(error);
+
+			expect(html).toBe(
+				'<div class="ctiw-error" title="Expected = after the name">⚠️ =button &lt;Click&gt;</div>'
+			);
+		});
+
+		it('keeps the children of a broken container inside it', () => {
+			const error = createError('Expected = after the name', '=ul class:menu', undefined, 'ul');
+			error.children.push(createElement('li', { content: 'First' }));
+			const html = generateElement(error);
+
+			expect(html).toContain('<ul>');
+			expect(html).toContain('<div class="ctiw-error"');
+			expect(html).toContain('<li>First</li>');
+			expect(html).toContain('</ul>');
+		});
+
+		it('adds placeholder styles only when the document has errors', () => {
+			const ok = generateHTML(createDocument([createElement('text', { content: 'Hi' })]));
+			const broken = generateHTML(createDocument([createError('Oops', '=oops')]));
+
+			expect(ok).not.toContain('.ctiw-error');
+			expect(broken).toContain('.ctiw-error {');
+			expect(broken).toContain('⚠️ =oops');
+		});
+	});
+
+	describe('Escaped Values', () => {
+		it('escapes quotes in attributes and styles', () => {
+			const html = generateElement(
+				createElement('text', {
+					content: 'a "b"',
+					properties: { title: 'say "hi"', 'font-family': '"Comic Sans"' }
+				}),
+				'',
+				{ styles: 'inline' }
+			);
+
+			expect(html).toBe(
+				'<p title="say &quot;hi&quot;" style="font-family: &quot;Comic Sans&quot;">a &quot;b&quot;</p>'
+			);
+		});
+	});
+
+	// Styles written inline, to see the CSS they resolve to
+	const inline = (node: CTIWNode) => generateElement(node, '', { styles: 'inline' });
+
+	describe('Text, Background and Border Colors', () => {
+		it('colors the words, the background and the border', () => {
+			const element = createElement('text', {
+				content: 'Hi',
+				properties: { 'text-color': 'white', 'background-color': 'navy', 'border-color': 'gold' }
+			});
+
+			expect(inline(element)).toBe(
+				'<p style="color: white; background-color: navy; border-width: 2px; border-style: solid; border-color: gold">Hi</p>'
+			);
+		});
+
+		it('still colors the background with color= from older documents', () => {
+			const element = createElement('divide', { properties: { id: 'box', color: 'FF0000' } });
+
+			expect(generateCSS([element])).toContain('#box { background-color: #FF0000; }');
+		});
+	});
+
+	describe('Sizes', () => {
+		it('makes the words bigger on text elements', () => {
+			expect(inline(createElement('text', { content: 'Hi', properties: { size: 'big' } }))).toBe(
+				'<p style="font-size: 32px">Hi</p>'
+			);
+			expect(inline(createElement('button', { content: 'Go', properties: { size: '150%' } }))).toBe(
+				'<button style="font-size: 150%">Go</button>'
+			);
+			expect(inline(createElement('title', { content: 'Yo', properties: { size: 40 } }))).toBe(
+				'<h1 style="font-size: 40px">Yo</h1>'
+			);
+		});
+
+		it('scales pictures', () => {
+			expect(inline(createElement('img', { content: 'cat.png', properties: { size: 'small' } }))).toBe(
+				'<img src="cat.png" alt="" style="width: 100px">'
+			);
+			expect(inline(createElement('img', { content: 'cat.png', properties: { size: '50%' } }))).toBe(
+				'<img src="cat.png" alt="" style="width: 50%">'
+			);
+		});
+
+		it('makes boxes wider', () => {
+			expect(inline(createElement('divide', { properties: { size: 'huge' } }))).toBe(
+				'<div style="width: 100%"></div>'
+			);
+			expect(inline(createElement('divide', { properties: { size: 300 } }))).toBe(
+				'<div style="width: 300px"></div>'
+			);
+		});
+	});
+
+	describe('Element Attributes', () => {
+		it("writes an element's own attributes", () => {
+			const link = createElement('link', {
+				content: 'Home',
+				properties: { href: '/home', target: '_blank' }
+			});
+			const input = createElement('input', {
+				properties: { type: 'email', placeholder: 'you@example.com', required: 'yes' }
+			});
+
+			expect(generateElement(link)).toBe('<a href="/home" target="_blank">Home</a>');
+			expect(generateElement(input)).toBe('<input type="email" placeholder="you@example.com" required>');
+		});
+
+		it('leaves out attributes of other elements', () => {
+			const button = createElement('button', { content: 'Go', properties: { href: '/home' } });
+
+			expect(generateElement(button)).toBe('<button>Go</button>');
+		});
+
+		it('makes width a style on elements without a width attribute', () => {
+			const box = createElement('divide', { properties: { width: 200 } });
+			const picture = createElement('img', { content: 'cat.png', properties: { width: 200 } });
+
+			expect(inline(box)).toBe('<div style="width: 200px"></div>');
+			expect(generateElement(picture)).toBe('<img src="cat.png" alt="" width="200">');
+		});
+	});
+
+	describe('Typed Values', () => {
+		it('writes yes/no settings as bare attributes', () => {
+			const on = createElement('button', { content: 'Go', properties: { disabled: 'yes' } });
+			const off = createElement('button', { content: 'Go', properties: { disabled: 'no' } });
+
+			expect(generateElement(on)).toBe('<button disabled>Go</button>');
+			expect(generateElement(off)).toBe('<button>Go</button>');
+		});
+
+		it('writes lengths with their units', () => {
+			const element = createElement('divide', { properties: { size: '50%', 'font-size': '2em', margin: '10' } });
+
+			expect(inline(element)).toBe('<div style="width: 50%; font-size: 2em; margin: 10px"></div>');
+		});
+
+		it('writes color names and color functions', () => {
+			const element = createElement('divide', {
+				properties: { 'background-color': 'sky', 'outline-color': 'Blue', 'caret-color': 'rgb(0,0,255)' }
+			});
+
+			expect(inline(element)).toBe(
+				'<div style="background-color: #87CEEB; outline-color: blue; caret-color: rgb(0, 0, 255)"></div>'
+			);
+		});
+
+		it('leaves out values that are not valid', () => {
+			const element = createElement('divide', {
+				properties: { id: 'box', color: 'BAF2Y9', size: 'gigantic', in: 'middle' }
+			});
+
+			expect(generateCSS([element])).toContain('#box { text-align: center; }');
+		});
+
+		it('uses the typed values from the parser', () => {
+			const element = createElement('divide', { properties: { color: 'FF0000' } });
+			element.values = { color: { kind: 'color', css: '#00FF00' } };
+
+			expect(inline(element)).toBe('<div style="background-color: #00FF00"></div>');
+		});
+
+		it('does not link to unsafe addresses', () => {
+			const element = createElement('link', { content: 'Hi', properties: { href: 'javascript:alert(1)' } });
+
+			expect(generateElement(element)).toBe('<a href="#">Hi</a>');
+		});
+	});
+
+	describe('Inline Formatting', () => {
+		const formatted = (content: string) => {
+			const element = createElement('text', { content });
+			element.inline = parseInline(content);
+			return generateElement(element);
+		};
+
+		it('renders bold, italic, underline and colors', () => {
+			expect(formatted('*a* _b_ ~c~ {red: d} {00FF00: e}')).toBe(
+				'<p><strong>a</strong> <em>b</em> <u>c</u> <span style="color: red">d</span> ' +
+					'<span style="color: #00FF00">e</span></p>'
+			);
+		});
+
+		it('renders links and emoji', () => {
+			expect(formatted('[<cats>](https://cats.com/?a=1&b=2) :star:')).toBe(
+				'<p><a href="https://cats.com/?a=1&amp;b=2">&lt;cats&gt;</a> ⭐</p>'
+			);
+		});
+
+		it('leaves out unsafe links', () => {
+			expect(formatted('[click](javascript:alert(1))')).not.toContain('<a');
+			expect(formatted('[click](javascript:void)')).toBe('<p>click</p>');
+		});
+
+		it('leaves out colors that are not colors', () => {
+			expect(formatted('{red;x: hi}')).toBe('<p>{red;x: hi}</p>');
+			expect(formatted('{12: hi}')).toBe('<p><span>hi</span></p>');
+		});
+	});
+
+	describe('Text Blocks', () => {
+		it('keeps line breaks with <br>', () => {
+			const html = generateElement(createElement('text', { content: 'Roses <red>\nViolets\n\nSugar' }));
+
+			expect(html).toBe('<p>Roses &lt;red&gt;<br>\nViolets<br>\n<br>\nSugar</p>');
+		});
+	});
+
+	describe('Comments', () => {
+		it('leaves comments out by default', () => {
+			const doc = createDocument([createComment('a note'), createElement('text', { content: 'Hi' })]);
+			const html = generateHTML(doc);
+
+			expect(html).not.toContain('<!--');
+			expect(html).toContain('<p>Hi</p>');
+		});
+
+		it('emits comments as HTML comments when asked', () => {
+			const divide = createElement('divide', {
+				children: [createComment('inside'), createElement('text', { content: 'Hi' })]
+			});
+			const html = generateHTML(createDocument([createComment('top'), divide]), { comments: true });
+
+			expect(html).toContain('<!-- top -->');
+			expect(html).toContain('<div>\n    <!-- inside -->\n    <p>Hi</p>\n  </div>');
+		});
+
+		it('keeps -- out of HTML comments', () => {
+			const html = generateElement(createComment('a -- b -->'), '', { comments: true });
+
+			expect(html).toBe('<!-- a - - b - -> -->');
+		});
+	});
+
+	describe('Source Maps', () => {
+		const source = '=CTIW=\n=title=Hi= text-color=red= id:top=\n=divide=\n.. =button=Go=\n=divide=\n==CTIW==';
+
+		it('leaves out the source attributes by default', () => {
+			expect(generateHTML(parse(source).document)).not.toContain('data-ctiw-line');
+		});
+
+		it('marks each tag with its CTIW line and column when asked', () => {
+			const html = generateHTML(parse(source).document, { sourceMap: true });
+
+			expect(html).toContain('<h1 data-ctiw-line="2" data-ctiw-column="1" id="top">Hi</h1>');
+			expect(html).toContain('<div data-ctiw-line="3" data-ctiw-column="1">');
+			expect(html).toContain('<button data-ctiw-line="4" data-ctiw-column="4">Go</button>');
+		});
+
+		it('marks tags written with their attributes first, specials and error placeholders', () => {
+			const at = (line: number) => createLocation(line, 1, line, 10);
+			const options = { sourceMap: true };
+
+			expect(generateElement(createElement('img', { content: 'cat.png', location: at(2) }), '', options)).toBe(
+				'<img data-ctiw-line="2" data-ctiw-column="1" src="cat.png" alt="">'
+			);
+			expect(generateElement(createSpecial('time', at(3)), '', options)).toBe(
+				'<span data-ctiw-line="3" data-ctiw-column="1" class="ctiw-time"></span>'
+			);
+			expect(generateElement(createError('Oops', '=?=', at(4)), '', options)).toContain(
+				'<div data-ctiw-line="4" data-ctiw-column="1" class="ctiw-error"'
+			);
+		});
+
+		it("doesn't mark nodes with no place in the code", () => {
+			expect(generateElement(createElement('text', { content: 'Hi' }), '', { sourceMap: true })).toBe('<p>Hi</p>');
+		});
+
+		it('maps each tag and CSS rule back to its element', () => {
+			const { html, map } = generateHTMLWithSourceMap(parse(source).document, {
+				file: 'page.html',
+				sourceContent: source
+			});
+			const lines = html.split('\n');
+			const ruleLine = lines.findIndex((line) => line.includes('#top {'));
+			const titleLine = lines.findIndex((line) => line.includes('<h1 '));
+
+			expect(map.file).toBe('page.html');
+			expect(map.sources).toEqual(['page.ctiw']);
+			expect(map.sourcesContent).toEqual([source]);
+
+			// One mapping on the rule's line and one on each tag's line
+			const groups = map.mappings.split(';');
+			expect(groups[ruleLine]).toBe('IACA');
+			expect(groups[titleLine]).not.toBe('');
+			expect(groups.filter((group) => group !== '')).toHaveLength(4);
+		});
+	});
+
+	describe('Page Parts', () => {
+		it('keeps the CSS, script and body apart', () => {
+			const doc = createDocument([createSpecial('time'), createError('Oops', '=?=')], { language: 'spanish' });
+			const parts = generateParts(doc);
+
+			expect(parts.language).toBe('es');
+			expect(parts.css.split('\n')).toHaveLength(2);
+			expect(parts.css).toContain('.ctiw-error {');
+			expect(parts.js).toContain('setInterval(updateTime, 1000);');
+			expect(parts.js).not.toContain('<script>');
+			expect(parts.bodyFragment).not.toContain('<script>');
+		});
+
+		it('leaves the script out when nothing needs it', () => {
+			expect(generateParts(createDocument()).js).toBe('');
+			expect(generateHTML(createDocument())).not.toContain('<script>');
+		});
+
+		it('puts the parts together into a document', () => {
+			const html = assembleHTML({
+				language: 'fr',
+				head: '<title>Hi</title>',
+				css: 'a { color: red; }\nb { color: blue; }',
+				js: 'go();',
+				bodyFragment: '  <p>Hi</p>'
+			});
+
+			expect(html).toBe(
+				'<!DOCTYPE html>\n<html lang="fr">\n<head>\n  <title>Hi</title>\n  <style>\n' +
+					'    a { color: red; }\n    b { color: blue; }\n  </style>\n</head>\n<body>\n' +
+					'  <p>Hi</p>\n  <script>\n    go();\n  </script>\n</body>\n</html>'
+			);
+		});
+	});
+
+	describe('Assets', () => {
+		it('finds the files elements load, in order', () => {
+			const video = createElement('video', { properties: { src: 'clip.mp4', poster: 'still.png' } });
+			const divide = createElement('divide', {
+				children: [createElement('img', { content: 'cat.png' }), video]
+			});
+
+			expect(collectAssets(createDocument([divide])).map((asset) => asset.url)).toEqual([
+				'cat.png',
+				'clip.mp4',
+				'still.png'
+			]);
+		});
+
+		it('leaves out links, unsafe URLs and properties elements ignore', () => {
+			const doc = createDocument([
+				createElement('link', { properties: { href: 'page.html' } }),
+				createElement('img', { content: 'javascript:alert(1)' }),
+				createElement('text', { properties: { src: 'nope.png' } })
+			]);
+
+			expect(collectAssets(doc)).toEqual([]);
+		});
+	});
+
+	describe('Style Strategies', () => {
+		const twins = () =>
+			createDocument([
+				createElement('text', { content: 'One', properties: { 'text-color': 'red' } }),
+				createElement('text', { content: 'Two', properties: { 'text-color': 'red', class: 'big' } }),
+				createElement('title', { content: 'Top', properties: { id: 'top', 'text-color': 'red' } })
+			]);
+
+		it('shares one class rule between elements with the same styles', () => {
+			const html = generateHTML(twins(), { styles: 'class' });
+			const className = html.match(/<p class="(ctiw-[a-z0-9]+)">One<\/p>/)?.[1];
+
+			expect(className).toBeDefined();
+			expect(html).toContain(`<p class="big ${className}">Two</p>`);
+			expect(html).toContain(`<h1 id="top" class="${className}">Top</h1>`);
+			expect(html.split(`.${className} { color: red; }`)).toHaveLength(2);
+		});
+
+		it('shares classes between elements without an id by default', () => {
+			const html = generateHTML(twins());
+			const className = html.match(/<p class="(ctiw-[a-z0-9]+)">One<\/p>/)?.[1];
+
+			expect(html).toContain(`<p class="big ${className}">Two</p>`);
+			expect(html).toContain('<h1 id="top">Top</h1>');
+			expect(html.split(`.${className} { color: red; }`)).toHaveLength(2);
+			expect(html).not.toContain('style="');
+		});
+
+		it('writes every element inline', () => {
+			const html = generateHTML(twins(), { styles: 'inline' });
+
+			expect(html).toContain('<h1 id="top" style="color: red">Top</h1>');
+			expect(html).not.toContain('#top {');
+		});
+
+		it('writes values into custom properties', () => {
+			const html = generateHTML(twins(), { styles: 'custom-properties' });
+
+			expect(html).toContain('#top { --ctiw-color: red; color: var(--ctiw-color); }');
+			expect(html).toMatch(/\.ctiw-[a-z0-9]+ \{ --ctiw-color: red; color: var\(--ctiw-color\); \}/);
+			expect(html).toMatch(/<p class="ctiw-[a-z0-9]+">One<\/p>/);
+		});
+
+		it('uses the strategy in generateCSS too', () => {
+			expect(generateCSS(twins().children, { styles: 'inline' })).toBe('');
+			expect(generateCSS(twins().children, { styles: 'id' }).split('\n    ')).toHaveLength(2);
+		});
+	});
+
+	describe('Element IDs', () => {
+		const styled = (id: string, content: string) =>
+			createElement('text', { content, properties: { id, 'text-color': 'red' } });
+
+		it('numbers ids used again, in the HTML and the CSS', () => {
+			const html = generateHTML(createDocument([styled('box', 'A'), styled('box', 'B')]));
+
+			expect(html).toContain('<p id="box">A</p>');
+			expect(html).toContain('<p id="box-2">B</p>');
+			expect(html).toContain('#box { color: red; }\n    #box-2 { color: red; }');
+		});
+
+		it('cleans up ids that are not valid', () => {
+			const html = generateHTML(createDocument([styled('my box', 'A')]));
+
+			expect(html).toContain('<p id="my-box">A</p>');
+			expect(html).toContain('#my-box { color: red; }');
+			expect(generateElement(styled('1st', 'A'))).toBe('<p id="id-1st">A</p>');
+		});
+
+		it('gives every element an id when asked', () => {
+			const doc = createDocument([
+				createElement('divide', { children: [createElement('text', { content: 'Hi', properties: { 'text-color': 'red' } })] }),
+				createElement('text', { content: 'Yo', properties: { id: 'text-1' } })
+			]);
+			const html = generateHTML(doc, { autoIds: true });
+
+			expect(html).toContain('<div id="divide-1">\n    <p id="text-2">Hi</p>\n  </div>');
+			expect(html).toContain('<p id="text-1">Yo</p>');
+			expect(html).toContain('#text-2 { color: red; }');
+		});
+
+		it('leaves out empty ids', () => {
+			expect(generateElement(createElement('text', { content: 'Hi', properties: { id: '' } }))).toBe('<p>Hi</p>');
+		});
+
+		it('maps rules for renamed ids in source maps', () => {
+			const source = '=CTIW=\n=text=A= id:box= text-color=red=\n=text=B= id:box= text-color=blue=\n==CTIW==';
+			const { html, map } = generateHTMLWithSourceMap(parse(source).document);
+			const ruleLine = html.split('\n').findIndex((line) => line.includes('#box-2 {'));
+
+			expect(map.mappings.split(';')[ruleLine]).not.toBe('');
+		});
+	});
 });
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { parseColor, colorNames, KID_COLORS, CSS_COLORS } from '$lib/parser/colors';
+
+describe('Colors', () => {
+	describe('parseColor', () => {
+		it('accepts CSS color names', () => {
+			expect(parseColor('blue')).toEqual({ ok: true, css: 'blue' });
+			expect(parseColor('RebeccaPurple')).toEqual({ ok: true, css: 'rebeccapurple' });
+			expect(parseColor('transparent')).toEqual({ ok: true, css: 'transparent' });
+		});
+
+		it('turns kid-friendly names into hex codes', () => {
+			expect(parseColor('sky')).toEqual({ ok: true, css: '#87CEEB' });
+			expect(parseColor('Grass')).toEqual({ ok: true, css: '#4CAF50' });
+		});
+
+		it('accepts 3, 6 and 8 digit hex codes, with or without #', () => {
+			expect(parseColor('F00')).toEqual({ ok: true, css: '#F00' });
+			expect(parseColor('#ff0000')).toEqual({ ok: true, css: '#ff0000' });
+			expect(parseColor('FF000080')).toEqual({ ok: true, css: '#FF000080' });
+			expect(parseColor('#FFFF')).toEqual({
+				ok: false,
+				message:
+					"#FFFF isn't a real color. Color codes need 3, 6 or 8 letters/numbers, like F00 or FF0000 for red, or FF000080 for see-through red!"
+			});
+		});
+
+		it('accepts hex codes made only of letters, like older pages use', () => {
+			expect(parseColor('FFFFFF')).toEqual({ ok: true, css: '#FFFFFF' });
+			expect(parseColor('#ABCDEF')).toEqual({ ok: true, css: '#ABCDEF' });
+			expect(parseColor('fff')).toEqual({ ok: true, css: '#fff' });
+		});
+
+		it('accepts rgb() and hsl()', () => {
+			expect(parseColor('rgb(255,0,0)')).toEqual({ ok: true, css: 'rgb(255, 0, 0)' });
+			expect(parseColor('RGBA(255 0 0 / 50%)')).toEqual({ ok: true, css: 'rgba(255, 0, 0, 50%)' });
+			expect(parseColor('hsl(120deg, 100%, 50%)')).toEqual({ ok: true, css: 'hsl(120deg, 100%, 50%)' });
+			expect(parseColor('hsla(120, 100%, 50%, 0.5)')).toEqual({
+				ok: true,
+				css: 'hsla(120, 100%, 50%, 0.5)'
+			});
+		});
+
+		it('explains what rgb() and hsl() need', () => {
+			expect(parseColor('rgb(300,0,0)')).toEqual({
+				ok: false,
+				message: "rgb(300,0,0) isn't a real color. rgb() needs 3 numbers from 0 to 255, like rgb(255, 0, 0) for red!"
+			});
+			expect(parseColor('hsl(0,100,50)')).toEqual({
+				ok: false,
+				message: "hsl(0,100,50) isn't a real color. hsl() needs an angle and 2 percents, like hsl(0, 100%, 50%) for red!"
+			});
+		});
+
+		it('points out the character that makes a hex code not real', () => {
+			expect(parseColor('BAF2Y9')).toEqual({ ok: false, message: "BAF2Y9 isn't a real color, Y isn't a hex digit" });
+			expect(parseColor('#GG0000')).toEqual({ ok: false, message: "#GG0000 isn't a real color, G isn't a hex digit" });
+		});
+
+		it('suggests the nearest color name for typos', () => {
+			expect(parseColor('bleu')).toEqual({
+				ok: false,
+				message: "bleu isn't a real color. Did you mean blue?",
+				suggestion: 'blue'
+			});
+			expect(parseColor('purpel')).toEqual({
+				ok: false,
+				message: "purpel isn't a real color. Did you mean purple?",
+				suggestion: 'purple'
+			});
+			expect(parseColor('skyy')).toEqual({
+				ok: false,
+				message: "skyy isn't a real color. Did you mean sky?",
+				suggestion: 'sky'
+			});
+			expect(parseColor('sparkly')).toEqual({
+				ok: false,
+				message: "sparkly isn't a color I know. Try a name like red or sky, or a code like FF0000"
+			});
+		});
+	});
+
+	it('keeps kid-friendly names apart from CSS names', () => {
+		for (const name of Object.keys(KID_COLORS)) {
+			expect(Object.hasOwn(CSS_COLORS, name)).toBe(false);
+		}
+		expect(colorNames().slice(0, 2)).toEqual(['sky', 'ocean']);
+	});
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { compile } from '$lib/parser/compile';
+import { generateHTML } from '$lib/parser/codegen';
+import { parse } from '$lib/parser/parser';
+import { DiagnosticCode } from '$lib/parser/diagnostics';
+
+describe('compile', () => {
+	const source = [
+		'=CTIW=',
+		'=title=Space= id:top= text-color=red=',
+		'=img=rocket.png=',
+		'=(time)=',
+		'==CTIW=='
+	].join('\n');
+
+	it('makes the same page as parsing and generating', () => {
+		expect(compile(source).html).toBe(generateHTML(parse(source).document));
+	});
+
+	it('gives the parts of the page on their own', () => {
+		const result = compile(source);
+
+		expect(result.head).toBe('<meta charset="utf-8">\n<title>Space</title>');
+		expect(result.css).toBe('body { font-family: sans-serif; padding: 20px; }\n#top { color: red; }');
+		expect(result.js).toContain('function updateTime()');
+		expect(result.bodyFragment).toBe(
+			'  <h1 id="top">Space</h1>\n  <img src="rocket.png" alt="">\n  <span class="ctiw-time"></span>'
+		);
+		expect(result.language).toBe('');
+	});
+
+	it('gives the problems found and the files the page loads', () => {
+		const result = compile('=CTIW=\n=img=cat.png=\n=buton=Go=\n==CTIW==');
+
+		expect(result.diagnostics).toMatchObject([{ code: DiagnosticCode.UnknownElement, line: 3 }]);
+		expect(result.assets).toMatchObject([{ url: 'cat.png', elementType: 'img', location: { start: { line: 2 } } }]);
+		expect(result.document.children).toHaveLength(2);
+	});
+
+	it('passes options on to the parser and codegen', () => {
+		const result = compile('=CTIW=\n=divide=\n.. =text=Hi=\n=divide=\n==CTIW==', {
+			dotsPerLevel: 2,
+			sourceMap: true
+		});
+
+		expect(result.diagnostics).toEqual([]);
+		expect(result.bodyFragment).toContain('<p data-ctiw-line="3" data-ctiw-column="4">Hi</p>');
+	});
+});
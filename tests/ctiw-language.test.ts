@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { EditorState } from '@codemirror/state';
+import { ensureSyntaxTree } from '@codemirror/language';
+import { highlightTree, classHighlighter } from '@lezer/highlight';
+import { ctiwLang } from '$lib/editor/ctiw-language';
+
+/**
+ * Highlight a document, giving each highlighted piece of a line and its class
+ */
+function highlight(doc: string): Map<number, [string, string][]> {
+	const state = EditorState.create({ doc, extensions: [ctiwLang] });
+	const tree = ensureSyntaxTree(state, doc.length, 5000)!;
+	const lines = new Map<number, [string, string][]>();
+	highlightTree(tree, classHighlighter, (from, to, classes) => {
+		const line = state.doc.lineAt(from).number;
+		lines.set(line, [...(lines.get(line) ?? []), [doc.slice(from, to), classes]]);
+	});
+	return lines;
+}
+
+describe('CTIW highlighting', () => {
+	describe('Text blocks', () => {
+		it('shows the lines of a text block as text', () => {
+			const lines = highlight('==CTIW==\n=text=\nRoses = red\n=\n==CTIW==');
+
+			expect(lines.get(3)).toEqual([['Roses = red', 'tok-string']]);
+			expect(lines.get(4)).toEqual([['=', 'tok-punctuation']]);
+			expect(lines.get(5)).toEqual([['==CTIW==', 'tok-keyword']]);
+		});
+
+		it('only starts a text block on a line with just =text= or ==text==', () => {
+			const lines = highlight('==CTIW==\n=text= in=left=\n=button=Go= id:b=\n=title=Hi=\n==CTIW==');
+
+			expect(lines.get(3)?.[1]).toEqual(['button', 'tok-typeName']);
+			expect(lines.get(4)?.[1]).toEqual(['title', 'tok-typeName']);
+			expect(lines.get(5)).toEqual([['==CTIW==', 'tok-keyword']]);
+		});
+
+		it('ends a text block without a closing line at the next statement', () => {
+			const lines = highlight('==CTIW==\n==text==\n=button=Go=\n==CTIW==');
+
+			expect(lines.get(3)?.[1]).toEqual(['button', 'tok-typeName']);
+			expect(lines.get(4)).toEqual([['==CTIW==', 'tok-keyword']]);
+		});
+	});
+});
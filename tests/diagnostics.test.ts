@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import {
+	DiagnosticCode,
+	DIAGNOSTIC_DEFINITIONS,
+	applyFixes,
+	createDiagnostic,
+	diagnosticsAtLeast,
+	formatDiagnostic,
+	lineRange
+} from '$lib/parser/diagnostics';
+
+describe('Diagnostics', () => {
+	it('defines every code once', () => {
+		const codes = Object.values(DiagnosticCode);
+		expect(new Set(codes).size).toBe(codes.length);
+		expect(Object.keys(DIAGNOSTIC_DEFINITIONS).sort()).toEqual([...codes].sort());
+		for (const code of codes) {
+			expect(code).toMatch(/^CTIW\d{4}$/);
+		}
+	});
+
+	it('gives a diagnostic the severity of its code', () => {
+		expect(createDiagnostic(DiagnosticCode.MissingFooter, 'Oops', lineRange(3, 1))).toEqual({
+			code: 'CTIW0002',
+			severity: 'error',
+			message: 'Oops',
+			line: 3,
+			column: 1,
+			range: { start: { line: 3, column: 1 }, end: { line: 3, column: 1 } }
+		});
+		expect(createDiagnostic(DiagnosticCode.LegacyColor, 'Older', lineRange(2, 5, 10)).severity).toBe('info');
+	});
+
+	it('keeps diagnostics at least as serious as a severity', () => {
+		const diagnostics = [
+			createDiagnostic(DiagnosticCode.MissingHeader, 'Error', lineRange(1, 1)),
+			createDiagnostic(DiagnosticCode.UnknownElement, 'Warning', lineRange(2, 1)),
+			createDiagnostic(DiagnosticCode.LegacyColor, 'Info', lineRange(3, 1))
+		];
+
+		expect(diagnosticsAtLeast(diagnostics, 'error').map((d) => d.message)).toEqual(['Error']);
+		expect(diagnosticsAtLeast(diagnostics, 'warning').map((d) => d.message)).toEqual(['Error', 'Warning']);
+		expect(diagnosticsAtLeast(diagnostics, 'hint')).toHaveLength(3);
+	});
+
+	it('describes a diagnostic in one line', () => {
+		const diagnostic = createDiagnostic(DiagnosticCode.UnknownElement, 'Hmm', lineRange(4, 2, 7));
+		expect(formatDiagnostic(diagnostic)).toBe('Line 4: Hmm (CTIW0020)');
+	});
+
+	describe('applyFixes', () => {
+		const fix = (range: ReturnType<typeof lineRange>, text: string) =>
+			createDiagnostic(DiagnosticCode.UnknownElement, 'Fix me', range, {
+				fixes: [{ title: `Change it to ${text}`, edits: [{ range, text }] }]
+			});
+
+		it('applies the first fix of each diagnostic', () => {
+			const source = '=buton=Go=\n=titel=Hi=';
+			expect(applyFixes(source, [fix(lineRange(1, 2, 7), 'button'), fix(lineRange(2, 2, 7), 'title')])).toBe(
+				'=button=Go=\n=title=Hi='
+			);
+		});
+
+		it('inserts, deletes and ignores diagnostics without fixes', () => {
+			const source = 'one\ntwo\nthree';
+			expect(
+				applyFixes(source, [
+					fix(lineRange(1, 4), '!'),
+					createDiagnostic(DiagnosticCode.MissingHeader, 'No fix', lineRange(2, 1)),
+					fix(lineRange(3, 1, 6), '')
+				])
+			).toBe('one!\ntwo\n');
+		});
+
+		it('leaves out fixes that touch code an earlier fix changes', () => {
+			expect(applyFixes('abcdef', [fix(lineRange(1, 1, 4), 'X'), fix(lineRange(1, 3, 5), 'Y')])).toBe('Xdef');
+			expect(applyFixes('abc', [fix(lineRange(1, 2), 'X'), fix(lineRange(1, 2), 'Y')])).toBe('aXbc');
+		});
+	});
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { isKnownElement, isCustomElement, unknownElementWarning } from '$lib/parser/elements';
+
+describe('Element Catalog', () => {
+	it('knows CTIW elements, containers and HTML tags', () => {
+		expect(isKnownElement('title')).toBe(true);
+		expect(isKnownElement('heading')).toBe(true);
+		expect(isKnownElement('divide')).toBe(true);
+		expect(isKnownElement('span')).toBe(true);
+		expect(isKnownElement('H1')).toBe(true);
+		expect(isKnownElement('buton')).toBe(false);
+		expect(isKnownElement('script')).toBe(false);
+	});
+
+	it('treats names with a dash as custom elements', () => {
+		expect(isCustomElement('my-widget')).toBe(true);
+		expect(isCustomElement('cat-card-2')).toBe(true);
+		expect(isCustomElement('widget')).toBe(false);
+		expect(isCustomElement('-widget')).toBe(false);
+	});
+
+	describe('unknownElementWarning', () => {
+		it('suggests the closest element', () => {
+			expect(unknownElementWarning('buton')).toEqual({
+				message: "Hmm, I don't know an element called =buton=. Did you mean =button=?",
+				suggestion: 'button'
+			});
+			expect(unknownElementWarning('titel')?.suggestion).toBe('title');
+		});
+
+		it('explains custom elements when nothing is close', () => {
+			expect(unknownElementWarning('sparkles')).toEqual({
+				message:
+					"Hmm, I don't know an element called =sparkles=. To make your own, put a dash in its name, like =my-sparkles=",
+				suggestion: null
+			});
+		});
+
+		it('is quiet for elements that are fine', () => {
+			expect(unknownElementWarning('button')).toBeNull();
+			expect(unknownElementWarning('section')).toBeNull();
+			expect(unknownElementWarning('my-widget')).toBeNull();
+		});
+	});
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import {
+	isEscapeAt,
+	findClosingQuote,
+	unescapeValue,
+	escapeContent,
+	quoteValue
+} from '$lib/parser/escapes';
+
+describe('Escapes', () => {
+	describe('isEscapeAt', () => {
+		it('matches a backslash before a character it can escape', () => {
+			expect(isEscapeAt('a\\=b', 1)).toBe(true);
+			expect(isEscapeAt('a\\\\b', 1)).toBe(true);
+			expect(isEscapeAt('a\\ b', 1)).toBe(true);
+		});
+
+		it('leaves other backslashes alone', () => {
+			expect(isEscapeAt('C:\\pics', 2)).toBe(false);
+			expect(isEscapeAt('end\\', 3)).toBe(false);
+		});
+	});
+
+	describe('findClosingQuote', () => {
+		it('skips escaped quotes', () => {
+			expect(findClosingQuote('"say \\"hi\\""=', 0)).toBe(11);
+		});
+
+		it('returns -1 for a quote that never ends', () => {
+			expect(findClosingQuote('"oops=', 0)).toBe(-1);
+			expect(findClosingQuote('"oops\n"', 0)).toBe(-1);
+		});
+	});
+
+	describe('unescapeValue', () => {
+		it('replaces escapes', () => {
+			expect(unescapeValue('2+2\\=4')).toBe('2+2=4');
+			expect(unescapeValue('back\\\\slash')).toBe('back\\slash');
+			expect(unescapeValue('C:\\pics')).toBe('C:\\pics');
+		});
+
+		it('takes quotes off', () => {
+			expect(unescapeValue('"Hi = there"')).toBe('Hi = there');
+			expect(unescapeValue('"say \\"hi\\""')).toBe('say "hi"');
+			expect(unescapeValue('"never ends')).toBe('never ends');
+		});
+	});
+
+	describe('escapeContent and quoteValue', () => {
+		it('round-trips through unescapeValue', () => {
+			for (const text of ['2+2=4', 'a\\=b', 'ends with \\', 'C:\\pics', 'say "hi"']) {
+				expect(unescapeValue(escapeContent(text))).toBe(text);
+				expect(unescapeValue(quoteValue(text))).toBe(text);
+			}
+		});
+
+		it('only quotes values that need it', () => {
+			expect(quoteValue('main')).toBe('main');
+			expect(quoteValue('https://example.com')).toBe('https://example.com');
+			expect(quoteValue('Comic Sans')).toBe('"Comic Sans"');
+			expect(quoteValue('')).toBe('""');
+		});
+	});
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { isValidId, sanitizeId, assignIds, validateIds } from '$lib/parser/ids';
+import { createDocument, createElement, createError } from '$lib/parser/ast';
+import { parse } from '$lib/parser/parser';
+import { DiagnosticCode } from '$lib/parser/diagnostics';
+
+describe('isValidId', () => {
+	it('takes a letter, then letters, numbers, - and _', () => {
+		expect(isValidId('box')).toBe(true);
+		expect(isValidId('main-box_2')).toBe(true);
+		expect(isValidId('1st')).toBe(false);
+		expect(isValidId('my box')).toBe(false);
+		expect(isValidId('-box')).toBe(false);
+		expect(isValidId('')).toBe(false);
+	});
+});
+
+describe('sanitizeId', () => {
+	it('cleans up ids the same way every time', () => {
+		expect(sanitizeId('box')).toBe('box');
+		expect(sanitizeId('my box!')).toBe('my-box');
+		expect(sanitizeId('1st')).toBe('id-1st');
+		expect(sanitizeId('_hidden')).toBe('id-_hidden');
+		expect(sanitizeId('!!!')).toBe('id');
+	});
+});
+
+describe('assignIds', () => {
+	const text = (id?: string) => createElement('text', { properties: id === undefined ? {} : { id } });
+
+	it('numbers ids used again, skipping ids written elsewhere', () => {
+		const [first, second, third, written] = [text('box'), text('box'), text('box'), text('box-2')];
+		const ids = assignIds(createDocument([first, second, third, written]));
+
+		expect([ids.get(first), ids.get(second), ids.get(third), ids.get(written)]).toEqual([
+			'box',
+			'box-3',
+			'box-4',
+			'box-2'
+		]);
+	});
+
+	it('keeps an id written the valid way, even when a cleaned up id comes first', () => {
+		const [cleaned, written] = [text('1st'), text('id-1st')];
+		const ids = assignIds(createDocument([cleaned, written]));
+
+		expect([ids.get(cleaned), ids.get(written)]).toEqual(['id-1st-2', 'id-1st']);
+	});
+
+	it('gives the cleaned up id, and leaves out elements without one', () => {
+		const [spaced, plain] = [text('my box'), text()];
+		const ids = assignIds(createDocument([spaced, plain]));
+
+		expect(ids.get(spaced)).toBe('my-box');
+		expect(ids.has(plain)).toBe(false);
+	});
+
+	it('gives every element an id with autoIds, inside boxes and broken boxes too', () => {
+		const [inner, inBroken] = [text(), text()];
+		const divide = createElement('divide', { children: [inner, text('text-1')] });
+		const broken = createError('Oops', '=divide', undefined, 'divide');
+		broken.children.push(inBroken);
+		const ids = assignIds(createDocument([divide, broken]), true);
+
+		expect(ids.get(divide)).toBe('divide-1');
+		expect(ids.get(inner)).toBe('text-2');
+		expect(ids.get(inBroken)).toBe('text-3');
+	});
+});
+
+describe('validateIds', () => {
+	it('points at both uses of an id, with a fix to the id the page uses', () => {
+		const source = '=CTIW=\n=text=A= id:box=\n=text=B= id:box=\n==CTIW==';
+
+		expect(validateIds(parse(source).document)).toMatchObject([
+			{
+				code: DiagnosticCode.DuplicateId,
+				severity: 'warning',
+				message: 'The id box is already used on line 2. Each id can only be used once',
+				range: { start: { line: 3, column: 13 }, end: { line: 3, column: 16 } },
+				related: [{ message: 'The id box is first used here', range: { start: { line: 2, column: 13 } } }],
+				fixes: [{ title: 'Change it to box-2', edits: [{ text: 'box-2' }] }]
+			}
+		]);
+	});
+
+	it('warns about ids that are not valid, with a fix to the cleaned up one', () => {
+		const source = '=CTIW=\n=text=A= id:1st=\n==CTIW==';
+
+		expect(validateIds(parse(source).document)).toMatchObject([
+			{
+				code: DiagnosticCode.InvalidId,
+				message: "1st can't be an id. Ids start with a letter and have letters, numbers, - and _, like id-1st",
+				fixes: [{ title: 'Change it to id-1st', edits: [{ text: 'id-1st' }] }]
+			}
+		]);
+	});
+
+	it('only calls ids written the same way duplicates', () => {
+		const source = '=CTIW=\n=text=A= id:1st=\n=text=B= id:id-1st=\n==CTIW==';
+
+		expect(validateIds(parse(source).document)).toMatchObject([
+			{ code: DiagnosticCode.InvalidId, line: 2, fixes: [{ title: 'Change it to id-1st-2' }] }
+		]);
+	});
+
+	it('is happy with ids used once', () => {
+		expect(validateIds(parse('=CTIW=\n=text=A= id:a=\n=text=B= id:b=\n==CTIW==').document)).toEqual([]);
+	});
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { parseInline, inlineText, hasFormatting } from '$lib/parser/inline';
+
+const text = (value: string) => ({ type: 'InlineText', text: value });
+
+describe('Inline Formatting', () => {
+	describe('parseInline', () => {
+		it('parses bold, italic and underline', () => {
+			expect(parseInline('a *b* _c_ ~d~')).toEqual([
+				text('a '),
+				{ type: 'InlineStyle', style: 'bold', children: [text('b')] },
+				text(' '),
+				{ type: 'InlineStyle', style: 'italic', children: [text('c')] },
+				text(' '),
+				{ type: 'InlineStyle', style: 'underline', children: [text('d')] }
+			]);
+		});
+
+		it('parses colored text, links and emoji', () => {
+			expect(parseInline('{red: hot} [site](https://example.com) :cat:')).toEqual([
+				{ type: 'InlineColor', color: 'red', children: [text('hot')] },
+				text(' '),
+				{ type: 'InlineLink', href: 'https://example.com', children: [text('site')] },
+				text(' '),
+				{ type: 'InlineEmoji', name: 'cat', emoji: '🐱' }
+			]);
+		});
+
+		it('nests formatting', () => {
+			expect(parseInline('*big {FF0000: red}*')).toEqual([
+				{
+					type: 'InlineStyle',
+					style: 'bold',
+					children: [text('big '), { type: 'InlineColor', color: 'FF0000', children: [text('red')] }]
+				}
+			]);
+		});
+
+		it('keeps markup that never closes as text', () => {
+			expect(parseInline('a * b')).toEqual([text('a * b')]);
+			expect(parseInline('*open {red: also open')).toEqual([text('*open {red: also open')]);
+			expect(parseInline('[no link]')).toEqual([text('[no link]')]);
+			expect(parseInline(':notanemoji:')).toEqual([text(':notanemoji:')]);
+		});
+
+		it('keeps long runs of markup that never closes as text, quickly', () => {
+			const stars = '*a '.repeat(2000);
+			const brackets = '['.repeat(2000);
+
+			expect(parseInline(stars)).toEqual([text(stars)]);
+			expect(parseInline(`${brackets}]`)).toEqual([text(`${brackets}]`)]);
+			expect(parseInline(`${stars}b*`)).toEqual([
+				text('*a '.repeat(1999)),
+				{ type: 'InlineStyle', style: 'bold', children: [text('a b')] }
+			]);
+		});
+
+		it('only formats whole words', () => {
+			expect(parseInline('2*3*4 and snake_case_name')).toEqual([text('2*3*4 and snake_case_name')]);
+		});
+
+		it('turns escaped markup into text', () => {
+			expect(parseInline('\\*not bold\\* 2+2\\=4')).toEqual([text('*not bold* 2+2=4')]);
+		});
+	});
+
+	describe('inlineText and hasFormatting', () => {
+		it('gets the plain text', () => {
+			const nodes = parseInline('I *love* [cats](https://cats.com) :heart:');
+
+			expect(inlineText(nodes)).toBe('I love cats ❤️');
+			expect(hasFormatting(nodes)).toBe(true);
+			expect(hasFormatting(parseInline('plain'))).toBe(false);
+		});
+	});
+});
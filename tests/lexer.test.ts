@@ -5,6 +5,7 @@ import {
 	type Token,
 	type LexerError
 } from '$lib/parser/lexer';
+import { DiagnosticCode } from '$lib/parser/diagnostics';
 
 describe('Lexer', () => {
 	describe('Token Types', () => {
@@ -39,6 +40,17 @@ describe('Lexer', () => {
 			});
 		});
 
+		it('should tokenize =CTIW= markers', () => {
+			const lexer = new Lexer('=CTIW=\n=text=Hi=\n==CTIW==');
+			const tokens = lexer.tokenize();
+
+			expect(tokens[0]).toMatchObject({ type: TokenType.CTIW_START, value: '=CTIW=' });
+			expect(tokens.find((t) => t.type === TokenType.CTIW_END)).toMatchObject({
+				value: '==CTIW==',
+				line: 3
+			});
+		});
+
 		it('should tokenize EQUALS sign', () => {
 			const lexer = new Lexer('=');
 			const tokens = lexer.tokenize();
@@ -354,6 +366,217 @@ describe('Lexer', () => {
 		});
 	});
 
+	describe('Comments', () => {
+		it('should tokenize a line comment', () => {
+			const lexer = new Lexer('.... // a note: with = signs\n=text=Hi=');
+			const tokens = lexer.tokenize();
+
+			expect(tokens[4]).toMatchObject({
+				type: TokenType.COMMENT,
+				value: '// a note: with = signs',
+				line: 1,
+				column: 6
+			});
+			expect(lexer.getErrors()).toEqual([]);
+		});
+
+		it('should tokenize a block comment across lines', () => {
+			const lexer = new Lexer('/* first\nsecond */ =text=Hi=');
+			const tokens = lexer.tokenize();
+
+			expect(tokens[0]).toMatchObject({
+				type: TokenType.COMMENT,
+				value: '/* first\nsecond */',
+				line: 1,
+				column: 1
+			});
+			expect(tokens[1]).toMatchObject({ type: TokenType.EQUALS, line: 2, column: 11 });
+		});
+
+		it('should report a block comment that never ends', () => {
+			const lexer = new Lexer('=text=Hi=\n/* oops\n=text=Gone=');
+			lexer.tokenize();
+
+			expect(lexer.getErrors()).toEqual([
+				{ code: DiagnosticCode.UnclosedComment, message: expect.stringContaining('*/'), line: 2, column: 1 }
+			]);
+		});
+
+		it('should not treat // inside content as a comment', () => {
+			const lexer = new Lexer('=link=Home= href:http://example.com=');
+			const tokens = lexer.tokenize();
+
+			expect(tokens.some((t) => t.type === TokenType.COMMENT)).toBe(false);
+		});
+	});
+
+	describe('Line numbers', () => {
+		it('should tokenize a line number before a statement', () => {
+			const lexer = new Lexer('10 ..=text=Hi=');
+			const tokens = lexer.tokenize();
+
+			expect(tokens[0]).toMatchObject({ type: TokenType.LINE_NUMBER, value: '10', column: 1 });
+			expect(tokens[1].type).toBe(TokenType.DOT);
+			expect(tokens[3]).toMatchObject({ type: TokenType.EQUALS, column: 6 });
+			expect(tokens[6]).toMatchObject({ type: TokenType.STRING, value: 'Hi' });
+		});
+
+		it('should only treat a number first on a line as a line number', () => {
+			const lexer = new Lexer('10 20');
+			const tokens = lexer.tokenize();
+
+			expect(tokens.map((t) => t.type)).toEqual([
+				TokenType.LINE_NUMBER,
+				TokenType.NUMBER,
+				TokenType.EOF
+			]);
+		});
+
+		it('should need a space after a line number', () => {
+			const lexer = new Lexer('42');
+			const tokens = lexer.tokenize();
+
+			expect(tokens[0].type).toBe(TokenType.NUMBER);
+		});
+	});
+
+	describe('Escapes and quotes', () => {
+		it('should keep an escaped = in content', () => {
+			const lexer = new Lexer('=text=2+2\\=4= color=red=');
+			const tokens = lexer.tokenize();
+
+			expect(tokens[3]).toMatchObject({ type: TokenType.STRING, value: '2+2\\=4', column: 7 });
+			expect(tokens[4]).toMatchObject({ type: TokenType.EQUALS, column: 13 });
+		});
+
+		it('should keep everything inside quotes', () => {
+			const lexer = new Lexer('==text=="a == b"== title="Hi there"=');
+			const tokens = lexer.tokenize();
+
+			expect(tokens[3]).toMatchObject({ type: TokenType.STRING, value: '"a == b"' });
+			expect(tokens[4].type).toBe(TokenType.DOUBLE_EQUALS);
+			expect(tokens[7]).toMatchObject({ type: TokenType.STRING, value: '"Hi there"', column: 26 });
+			expect(tokens[8].type).toBe(TokenType.EQUALS);
+		});
+
+		it('should keep an escaped = at the end of a value', () => {
+			const lexer = new Lexer('=link=Go= href=a\\==');
+			const tokens = lexer.tokenize();
+
+			expect(tokens[7]).toMatchObject({ type: TokenType.STRING, value: 'a\\=' });
+			expect(tokens[8].type).toBe(TokenType.EQUALS);
+			expect(tokens[9].type).toBe(TokenType.EOF);
+		});
+
+		it('should report a quote that never ends', () => {
+			const lexer = new Lexer('=text="Hello=');
+			lexer.tokenize();
+
+			expect(lexer.getErrors()).toEqual([
+				{
+					code: DiagnosticCode.UnclosedQuote,
+					message: 'This quote never ends. Add a " where your words stop!',
+					line: 1,
+					column: 7
+				}
+			]);
+		});
+	});
+
+	describe('Text blocks', () => {
+		it('should take each line of a text block whole', () => {
+			const lexer = new Lexer('==text==\nRoses = red\n  // not a comment\n==');
+			const tokens = lexer.tokenize();
+
+			const lines = tokens.filter((t) => t.type === TokenType.TEXT_LINE);
+			expect(lines.map((t) => t.value)).toEqual(['Roses = red', '// not a comment']);
+			expect(lines[1]).toMatchObject({ line: 3, column: 3 });
+			expect(tokens[tokens.length - 2].type).toBe(TokenType.DOUBLE_EQUALS);
+			expect(lexer.getErrors()).toEqual([]);
+		});
+
+		it('should only start a block when it has a closing line', () => {
+			const lexer = new Lexer('=text=\n=button=Go=\n==CTIW==\n=');
+			const tokens = lexer.tokenize();
+
+			expect(tokens.some((t) => t.type === TokenType.TEXT_LINE)).toBe(false);
+		});
+
+		it('should not start a block for text with content', () => {
+			const lexer = new Lexer('=text=Hi=\nhello\n=');
+			const tokens = lexer.tokenize();
+
+			expect(tokens.some((t) => t.type === TokenType.TEXT_LINE)).toBe(false);
+		});
+	});
+
+	describe('Statement scanning', () => {
+		it('should tokenize double-equals text content with punctuation', () => {
+			const lexer = new Lexer('==text==Hello, World!==');
+			const tokens = lexer.tokenize();
+
+			expect(tokens.map((t) => t.type)).toEqual([
+				TokenType.DOUBLE_EQUALS,
+				TokenType.IDENTIFIER,
+				TokenType.DOUBLE_EQUALS,
+				TokenType.STRING,
+				TokenType.DOUBLE_EQUALS,
+				TokenType.EOF
+			]);
+			expect(tokens[3]).toMatchObject({ value: 'Hello, World!', column: 9 });
+			expect(lexer.getErrors()).toEqual([]);
+		});
+
+		it('should tokenize shorthand text content', () => {
+			const lexer = new Lexer('==Hi there!==');
+			const tokens = lexer.tokenize();
+
+			expect(tokens[1]).toMatchObject({ type: TokenType.STRING, value: 'Hi there!', column: 3 });
+			expect(tokens[2]).toMatchObject({ type: TokenType.DOUBLE_EQUALS, column: 12 });
+		});
+
+		it('should treat a space after the name as no content', () => {
+			const lexer = new Lexer('=text= color=red=');
+			const tokens = lexer.tokenize();
+
+			expect(tokens.map((t) => t.type)).toEqual([
+				TokenType.EQUALS,
+				TokenType.IDENTIFIER,
+				TokenType.EQUALS,
+				TokenType.IDENTIFIER,
+				TokenType.EQUALS,
+				TokenType.IDENTIFIER,
+				TokenType.EQUALS,
+				TokenType.EOF
+			]);
+		});
+
+		it('should keep = inside content when it is not followed by a space', () => {
+			const lexer = new Lexer('=text=2+2=4= in=middle=');
+			const tokens = lexer.tokenize();
+
+			expect(tokens[3]).toMatchObject({ type: TokenType.STRING, value: '2+2=4' });
+			expect(tokens[5]).toMatchObject({ type: TokenType.IDENTIFIER, value: 'in' });
+		});
+
+		it('should scan attribute values up to the next space', () => {
+			const lexer = new Lexer('=link=Home= href:https://example.com/?a=b=');
+			const tokens = lexer.tokenize();
+
+			expect(tokens).toContainEqual(
+				expect.objectContaining({ type: TokenType.STRING, value: 'https://example.com/?a=b', column: 18 })
+			);
+			expect(lexer.getErrors()).toEqual([]);
+		});
+
+		it('should not report errors for punctuation in content', () => {
+			const lexer = new Lexer('=button=Click me! :) $5=');
+			lexer.tokenize();
+
+			expect(lexer.getErrors()).toEqual([]);
+		});
+	});
+
 	describe('Full document tokenization', () => {
 		it('should tokenize a complete CTIW document', () => {
 			const code = `==CTIW==
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import {
+	matchMarker,
+	isMarkerLine,
+	detectDialect,
+	hasHeader,
+	findFooter
+} from '$lib/parser/markers';
+
+describe('Document Markers', () => {
+	describe('matchMarker', () => {
+		it('matches both spellings', () => {
+			expect(matchMarker('=CTIW=')).toBe('=CTIW=');
+			expect(matchMarker('==CTIW==')).toBe('==CTIW==');
+		});
+
+		it('matches at a position in the text', () => {
+			expect(matchMarker('  ==CTIW==', 2)).toBe('==CTIW==');
+			expect(matchMarker('  ==CTIW==', 0)).toBeNull();
+		});
+
+		it('does not match other statements', () => {
+			expect(matchMarker('=text=CTIW=')).toBeNull();
+			expect(matchMarker('=ctiw=')).toBeNull();
+		});
+	});
+
+	describe('isMarkerLine', () => {
+		it('allows whitespace around the marker', () => {
+			expect(isMarkerLine('  =CTIW=  ')).toBe(true);
+		});
+
+		it('allows a line number in front of the marker', () => {
+			expect(isMarkerLine('10 ==CTIW==')).toBe(true);
+			expect(detectDialect('10 =CTIW=\n20 ==CTIW==')).toBe('single');
+		});
+
+		it('rejects a marker with more on the line', () => {
+			expect(isMarkerLine('==CTIW== hello')).toBe(false);
+			expect(isMarkerLine('')).toBe(false);
+		});
+	});
+
+	describe('detectDialect', () => {
+		it('reads the dialect from the header', () => {
+			expect(detectDialect('=CTIW=\n=text=Hi=\n==CTIW==')).toBe('single');
+			expect(detectDialect('\n==CTIW==\n==CTIW==')).toBe('double');
+		});
+
+		it('returns null without a header', () => {
+			expect(detectDialect('=text=Hi=\n==CTIW==')).toBeNull();
+			expect(hasHeader('=text=Hi=')).toBe(false);
+		});
+	});
+
+	describe('findFooter', () => {
+		it('finds the last marker after the header', () => {
+			const source = '=CTIW=\n=text=Hi=\n==CTIW==';
+			expect(findFooter(source)).toBe(source.indexOf('==CTIW=='));
+		});
+
+		it('does not mistake the header for a footer', () => {
+			expect(findFooter('==CTIW==\n=text=Hi=')).toBe(-1);
+		});
+	});
+});
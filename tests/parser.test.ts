@@ -1,7 +1,15 @@
 import { describe, it, expect } from 'vitest';
-import { parse } from '$lib/parser/parser';
+import {
+	parse,
+	detectDotsPerLevel,
+	fixIndentation,
+	renumberLines,
+	migrateColors,
+	fixEverything
+} from '$lib/parser/parser';
 import type { ParseResult } from '$lib/parser/parser';
-import type { ElementNode, SpecialNode, PropertyNode } from '$lib/parser/ast';
+import type { ElementNode, SpecialNode, PropertyNode, ErrorNode, CommentNode } from '$lib/parser/ast';
+import { locationContains } from '$lib/parser/ast';
 
 describe('CTIW Parser', () => {
 	describe('Document Structure', () => {
@@ -32,6 +40,27 @@ describe('CTIW Parser', () => {
 			expect(result.errors[0].message).toContain('==CTIW==');
 		});
 
+		it('accepts a =CTIW= header and records the dialect', () => {
+			const source = `=CTIW=
+=text=Hello=
+==CTIW==`;
+			const result = parse(source);
+
+			expect(result.errors).toEqual([]);
+			expect(result.document.children.length).toBe(1);
+			expect(result.document.metadata.dialect).toBe('single');
+		});
+
+		it('records the ==CTIW== dialect', () => {
+			const source = `==CTIW==
+=text=Hello=
+=CTIW=`;
+			const result = parse(source);
+
+			expect(result.errors).toEqual([]);
+			expect(result.document.metadata.dialect).toBe('double');
+		});
+
 		it('reports error for missing footer', () => {
 			const source = `==CTIW==
 =title=Hello=`;
@@ -226,6 +255,60 @@ describe('CTIW Parser', () => {
 		});
 	});
 
+	describe('Content and Properties', () => {
+		it('treats =text= color=red= as properties without content', () => {
+			const source = `==CTIW==
+=text= color=red=
+==CTIW==`;
+			const result = parse(source);
+
+			const text = result.document.children[0] as ElementNode;
+			expect(text.content).toBeNull();
+			expect(text.properties.color).toBe('red');
+		});
+
+		it('keeps punctuation in text content', () => {
+			const source = `==CTIW==
+==Hi! I made this page, with CTIW :)==
+==CTIW==`;
+			const result = parse(source);
+
+			const text = result.document.children[0] as ElementNode;
+			expect(text.content).toBe('Hi! I made this page, with CTIW :)');
+			expect(result.errors).toEqual([]);
+		});
+
+		it('accepts a single = closing double-equals text', () => {
+			const source = `==CTIW==
+==text==Hello=
+==CTIW==`;
+			const result = parse(source);
+
+			expect((result.document.children[0] as ElementNode).content).toBe('Hello');
+		});
+
+		it('keeps the whole attribute value', () => {
+			const source = `==CTIW==
+=link=Search= href:https://example.com/?q=cats=
+==CTIW==`;
+			const result = parse(source);
+
+			const link = result.document.children[0] as ElementNode;
+			expect(link.properties.href).toBe('https://example.com/?q=cats');
+		});
+
+		it('records the statement columns in the location', () => {
+			const source = `==CTIW==
+....=button=Go=
+==CTIW==`;
+			const result = parse(source);
+
+			const button = result.document.children[0] as ElementNode;
+			expect(button.location.start).toEqual({ line: 2, column: 5 });
+			expect(button.location.end).toEqual({ line: 2, column: 16 });
+		});
+	});
+
 	describe('Special Elements', () => {
 		it('parses time special element', () => {
 			const source = `==CTIW==
@@ -303,6 +386,218 @@ describe('CTIW Parser', () => {
 		});
 	});
 
+	describe('Generic Containers', () => {
+		it('nests list items inside a ul', () => {
+			const source = `==CTIW==
+=ul=
+....=li=First=
+....=li=Second=
+=ul=
+==text==After the list==
+==CTIW==`;
+			const result = parse(source);
+
+			expect(result.document.children.length).toBe(2);
+			const list = result.document.children[0] as ElementNode;
+			expect(list.elementType).toBe('ul');
+			expect(list.children.length).toBe(2);
+			expect((list.children[1] as ElementNode).content).toBe('Second');
+		});
+
+		it('nests different containers inside each other', () => {
+			const source = `==CTIW==
+=header=
+....=nav=
+........=link=Home= href:#home=
+....=nav=
+=header=
+=section= id:about=
+....=title=About=
+=section=
+==CTIW==`;
+			const result = parse(source);
+
+			expect(result.document.children.length).toBe(2);
+			const header = result.document.children[0] as ElementNode;
+			const nav = header.children[0] as ElementNode;
+			expect(nav.elementType).toBe('nav');
+			expect((nav.children[0] as ElementNode).elementType).toBe('link');
+			expect((result.document.children[1] as ElementNode).properties.id).toBe('about');
+		});
+
+		it('closes the nearest open container of the same type', () => {
+			const source = `==CTIW==
+=form=
+....=divide=
+........=input=
+....=divide=
+....=button=Send=
+=form=
+==CTIW==`;
+			const result = parse(source);
+
+			const form = result.document.children[0] as ElementNode;
+			expect(form.children.length).toBe(2);
+			expect((form.children[0] as ElementNode).children.length).toBe(1);
+			expect((form.children[1] as ElementNode).elementType).toBe('button');
+		});
+
+		it('opens a new container when the next line is inside it', () => {
+			const source = `==CTIW==
+=ul=
+....=li=Item=
+=ul=
+=ol=
+....=li=Step=
+=ol=
+==CTIW==`;
+			const result = parse(source);
+
+			expect(result.errors).toEqual([]);
+			expect(result.document.children.length).toBe(2);
+			expect((result.document.children[1] as ElementNode).elementType).toBe('ol');
+		});
+
+		it('keeps a container with content as a plain element', () => {
+			const source = `==CTIW==
+=header=Welcome=
+=divide=Hello= id:hi=
+=text=After=
+==CTIW==`;
+			const result = parse(source);
+
+			expect(result.errors).toEqual([]);
+			expect(result.document.children.map((child) => (child as ElementNode).content)).toEqual([
+				'Welcome',
+				'Hello',
+				'After'
+			]);
+		});
+	});
+
+	describe('Container Diagnostics', () => {
+		it('reports a container that never got closed at its opening line', () => {
+			const source = `==CTIW==
+==text==Hello=
+=divide= id:main=
+....==text==Inside=
+==CTIW==`;
+			const result = parse(source);
+
+			expect(result.errors).toMatchObject([
+				{
+					message: 'The =divide= box on line 3 never got closed. Add =divide= after the last line inside it',
+					line: 3,
+					column: 1
+				}
+			]);
+			expect((result.document.children[1] as ElementNode).children.length).toBe(1);
+		});
+
+		it('reports a closer that has nothing to close', () => {
+			const source = `==CTIW==
+=divide=
+....==text==Inside=
+=divide=
+=divide=
+==text==After=
+==CTIW==`;
+			const result = parse(source);
+
+			expect(result.errors).toMatchObject([
+				{ message: 'This closing =divide= has nothing to close', line: 5, column: 1 }
+			]);
+			expect(result.document.children.map((child) => child.type)).toEqual([
+				'Element',
+				'Error',
+				'Element'
+			]);
+		});
+
+		it('reports a closer that does not match the open container', () => {
+			const source = `==CTIW==
+=ul=
+....=li=Item=
+=ol=
+==CTIW==`;
+			const result = parse(source);
+
+			expect(result.errors.map((error) => [error.line, error.message])).toEqual([
+				[2, 'The =ul= box on line 2 never got closed. Add =ul= after the last line inside it'],
+				[4, "This closing =ol= doesn't match the =ul= box on line 2. Did you mean =ul=?"]
+			]);
+		});
+
+		it('reports containers left open inside the one being closed', () => {
+			const source = `==CTIW==
+=form=
+....=divide=
+........=input=
+=form=
+==CTIW==`;
+			const result = parse(source);
+
+			expect(result.errors).toMatchObject([
+				{
+					message: 'The =divide= box on line 3 never got closed before the =form= on line 5',
+					line: 3,
+					column: 5
+				}
+			]);
+		});
+
+		it('reports a closer whose dots disagree with its container', () => {
+			const source = `==CTIW==
+=divide=
+....==text==Inside=
+....=divide=
+==CTIW==`;
+			const result = parse(source);
+
+			expect(result.errors).toMatchObject([
+				{
+					message: 'This =divide= closes the box from line 2, so it needs the same dots as that line',
+					line: 4,
+					column: 1
+				}
+			]);
+		});
+
+		it('reports lines missing their dots once per container', () => {
+			const source = `==CTIW==
+=divide=
+==text==One=
+==text==Two=
+=divide=
+==CTIW==`;
+			const result = parse(source);
+
+			expect(result.errors).toMatchObject([
+				{
+					message:
+						'The =divide= box on line 2 is still open here. Add 4 dots to put this line inside it, or close the box first with =divide=',
+					line: 3,
+					column: 1
+				}
+			]);
+		});
+
+		it('reports lines with too many dots', () => {
+			const source = `==CTIW==
+....==text==Floating=
+=divide=
+........==text==Too deep=
+=divide=
+==CTIW==`;
+			const result = parse(source);
+
+			expect(result.errors.map((error) => [error.line, error.message])).toEqual([
+				[2, "This line has dots, but it isn't inside a box. Take away the dots or put it inside a box like =divide="],
+				[4, 'This line has too many dots. Lines inside the =divide= box on line 3 need 4 dots']
+			]);
+		});
+	});
+
 	describe('Nested Indentation', () => {
 		it('parses two dots as one level of nesting', () => {
 			const source = `==CTIW==
@@ -350,6 +645,821 @@ describe('CTIW Parser', () => {
 		});
 	});
 
+	describe('Indentation Dots', () => {
+		it('detects two dots per level from the document', () => {
+			const source = `==CTIW==
+=divide=
+.. =text=Inside=
+.. =divide=
+.... =text=Deeper=
+.. =divide=
+=divide=
+==CTIW==`;
+			expect(detectDotsPerLevel(source)).toBe(2);
+
+			const result = parse(source);
+			expect(result.errors).toEqual([]);
+			const inner = (result.document.children[0] as ElementNode).children[1] as ElementNode;
+			expect(inner.children.length).toBe(1);
+		});
+
+		it('uses the configured dots per level', () => {
+			const source = `==CTIW==
+=divide=
+..=text=Inside=
+=divide=
+==CTIW==`;
+			const result = parse(source, { dotsPerLevel: 4 });
+
+			expect(result.errors).toMatchObject([
+				{
+					message: 'This line has 2 dots, but each level uses 4. Did you mean 4 dots?',
+					line: 3,
+					column: 1,
+					severity: 'warning'
+				}
+			]);
+			expect((result.document.children[0] as ElementNode).children.length).toBe(1);
+		});
+
+		it('warns about odd dot counts and rounds to the nearest level', () => {
+			const source = `==CTIW==
+=divide=
+....==text==One=
+...==text==Two=
+=divide=
+==CTIW==`;
+			const result = parse(source);
+
+			expect(result.errors).toMatchObject([
+				{
+					message: 'This line has 3 dots, but each level uses 4. Did you mean 4 dots?',
+					line: 4,
+					column: 1,
+					severity: 'warning'
+				}
+			]);
+			expect((result.document.children[0] as ElementNode).children.length).toBe(2);
+		});
+
+		it('fixes dots to match the containers', () => {
+			const source = `==CTIW==
+=divide= id:box=
+....==text==One=
+......==text==Two=
+=ul=
+=li=Item=
+=ul=
+=divide=
+==CTIW==`;
+
+			expect(fixIndentation(source)).toBe(`==CTIW==
+=divide= id:box=
+....==text==One=
+....==text==Two=
+....=ul=
+........=li=Item=
+....=ul=
+=divide=
+==CTIW==`);
+		});
+
+		it('keeps the space after the dots and the detected dots per level', () => {
+			const source = `==CTIW==
+=divide=
+.. =text=Inside=
+...... =text=Too deep=
+=divide=
+.. =text=Outside=
+==CTIW==`;
+
+			expect(fixIndentation(source)).toBe(`==CTIW==
+=divide=
+.. =text=Inside=
+.. =text=Too deep=
+=divide=
+=text=Outside=
+==CTIW==`);
+		});
+
+		it('leaves correct code alone', () => {
+			const source = `==CTIW==
+=divide=
+....==text==Hello=
+=divide=
+==CTIW==`;
+
+			expect(fixIndentation(source)).toBe(source);
+		});
+	});
+
+	describe('Comments', () => {
+		it('parses line comments into CommentNodes', () => {
+			const source = `==CTIW==
+// Teacher's note: change the title!
+=title=Hello=
+==CTIW==`;
+			const result = parse(source);
+
+			expect(result.errors).toEqual([]);
+			const comment = result.document.children[0] as CommentNode;
+			expect(comment.type).toBe('Comment');
+			expect(comment.text).toBe("Teacher's note: change the title!");
+			expect(comment.location.start).toEqual({ line: 2, column: 1 });
+		});
+
+		it('parses block comments across lines', () => {
+			const source = `==CTIW==
+/* Step 1: add a title
+   Step 2: add a button */
+=title=Hello=
+==CTIW==`;
+			const result = parse(source);
+
+			expect(result.errors).toEqual([]);
+			expect(result.document.children.length).toBe(2);
+			const comment = result.document.children[0] as CommentNode;
+			expect(comment.text).toBe('Step 1: add a title\nStep 2: add a button');
+			expect(comment.location.end).toEqual({ line: 3, column: 27 });
+		});
+
+		it('keeps comments inside the container they sit in', () => {
+			const source = `==CTIW==
+=divide=
+// The button goes here
+....=button=Click=
+=divide=
+==CTIW==`;
+			const result = parse(source);
+
+			expect(result.errors).toEqual([]);
+			const divide = result.document.children[0] as ElementNode;
+			expect(divide.children.map((child) => child.type)).toEqual(['Comment', 'Element']);
+		});
+
+		it('reports a block comment that never ends', () => {
+			const source = `==CTIW==
+=title=Hello=
+/* forgot to close
+==CTIW==`;
+			const result = parse(source);
+
+			expect(result.errors).toContainEqual(
+				expect.objectContaining({
+					code: 'CTIW0012',
+					message: expect.stringContaining('*/'),
+					line: 3,
+					column: 1
+				})
+			);
+		});
+	});
+
+	describe('Line Numbers', () => {
+		it('strips line numbers and records them on the nodes', () => {
+			const source = `10 ==CTIW==
+20 =divide=
+30 ....=text=Hello=
+40 =divide=
+50 // a note
+60 ==CTIW==`;
+			const result = parse(source);
+
+			expect(result.errors).toEqual([]);
+			const divide = result.document.children[0] as ElementNode;
+			expect(divide.lineNumber).toBe(20);
+			expect((divide.children[0] as ElementNode).lineNumber).toBe(30);
+			expect((divide.children[0] as ElementNode).location.start.column).toBe(8);
+			expect((result.document.children[1] as CommentNode).lineNumber).toBe(50);
+		});
+
+		it('warns about repeated line numbers', () => {
+			const source = `==CTIW==
+10 =text=One=
+10 =text=Two=
+==CTIW==`;
+			const result = parse(source);
+
+			expect(result.errors).toMatchObject([
+				{
+					message: 'Line number 10 is already used on line 2. Each line needs its own number',
+					line: 3,
+					column: 1,
+					severity: 'warning'
+				}
+			]);
+		});
+
+		it('warns about line numbers that go backwards', () => {
+			const source = `==CTIW==
+10 =text=One=
+30 =text=Two=
+20 =text=Three=
+==CTIW==`;
+			const result = parse(source);
+
+			expect(result.errors).toMatchObject([
+				{
+					message: 'Line number 20 comes after 30. Line numbers should go up',
+					line: 4,
+					column: 1,
+					severity: 'warning'
+				}
+			]);
+		});
+
+		it('renumbers lines by tens', () => {
+			const source = `==CTIW==
+5 =text=One=
+=text=No number=
+5 =divide=
+7 ....=text=Inside=
+3 =divide=
+==CTIW==`;
+
+			expect(renumberLines(source)).toBe(`==CTIW==
+10 =text=One=
+=text=No number=
+20 =divide=
+30 ....=text=Inside=
+40 =divide=
+==CTIW==`);
+			expect(renumberLines('1 =text=A=\n1 =text=B=', { start: 1, step: 1 })).toBe(
+				'1 =text=A=\n2 =text=B='
+			);
+		});
+
+		it('keeps line numbers when fixing indentation', () => {
+			const source = `==CTIW==
+10 =divide=
+20 =text=Inside=
+30 =divide=
+==CTIW==`;
+
+			expect(fixIndentation(source)).toBe(`==CTIW==
+10 =divide=
+20 ....=text=Inside=
+30 =divide=
+==CTIW==`);
+		});
+	});
+
+	describe('Source Ranges', () => {
+		const range = (line: number, start: number, end: number) => ({
+			start: { line, column: start },
+			end: { line, column: end }
+		});
+
+		it('records where the name, content and each property are', () => {
+			const result = parse(`==CTIW==
+..=button=Click me= id:go= color="light blue"=
+==CTIW==`);
+			const button = result.document.children[0] as ElementNode;
+
+			expect(button.nameLocation).toEqual(range(2, 4, 10));
+			expect(button.contentLocation).toEqual(range(2, 11, 19));
+			expect(button.propertyLocations).toEqual({
+				id: { key: range(2, 21, 23), value: range(2, 24, 26) },
+				color: { key: range(2, 28, 33), value: range(2, 34, 46) }
+			});
+		});
+
+		it('records ranges for the == forms', () => {
+			const result = parse(`==CTIW==
+==text==Hi== size=
+==Hello==
+==CTIW==`);
+			const [text, shorthand] = result.document.children as ElementNode[];
+
+			expect(text.nameLocation).toEqual(range(2, 3, 7));
+			expect(text.contentLocation).toEqual(range(2, 9, 11));
+			expect(text.propertyLocations?.size).toEqual({ key: range(2, 14, 18) });
+			expect(shorthand.nameLocation).toBeUndefined();
+			expect(shorthand.contentLocation).toEqual(range(3, 3, 8));
+		});
+
+		it('puts empty content at its closer', () => {
+			const result = parse(`==CTIW==
+=button==
+==CTIW==`);
+			const button = result.document.children[0] as ElementNode;
+
+			expect(button.content).toBe('');
+			expect(button.contentLocation).toEqual(range(2, 9, 9));
+		});
+
+		it('records where a special name is', () => {
+			const result = parse(`==CTIW==
+=(time)=
+==CTIW==`);
+			const time = result.document.children[0] as SpecialNode;
+
+			expect(time.nameLocation).toEqual(range(2, 3, 7));
+		});
+
+		it('records where a text block is', () => {
+			const result = parse(`==CTIW==
+=text=
+  Line one
+Line two
+=
+==CTIW==`);
+			const text = result.document.children[0] as ElementNode;
+
+			expect(text.contentLocation).toEqual({
+				start: { line: 3, column: 3 },
+				end: { line: 4, column: 9 }
+			});
+		});
+
+		it('finds what is under a position', () => {
+			const location = range(2, 4, 10);
+
+			expect(locationContains(location, { line: 2, column: 4 })).toBe(true);
+			expect(locationContains(location, { line: 2, column: 9 })).toBe(true);
+			expect(locationContains(location, { line: 2, column: 10 })).toBe(false);
+			expect(locationContains(location, { line: 1, column: 5 })).toBe(false);
+		});
+	});
+
+	describe('Older color=', () => {
+		it('warns that color= is background-color= now', () => {
+			const result = parse(`==CTIW==
+=divide= color=red=
+=divide=
+==CTIW==`);
+
+			expect(result.errors).toMatchObject([
+				{
+					message:
+						"color= colors the background, so it's called background-color= now. Use text-color= to color the words!",
+					line: 2,
+					column: 10,
+					severity: 'info',
+					code: 'CTIW0024'
+				}
+			]);
+			expect((result.document.children[0] as ElementNode).properties.color).toBe('red');
+		});
+
+		it('renames color= to background-color=', () => {
+			const source = `==CTIW==
+=divide= id:box= color=red= outline=visible=
+.... ==text== color:"light blue"=
+.... A poem with color=red= in it
+.... ==
+=divide=
+=text=color=red= text-color=blue=
+==CTIW==`;
+
+			expect(migrateColors(source)).toBe(`==CTIW==
+=divide= id:box= background-color=red= outline=visible=
+.... ==text== background-color:"light blue"=
+.... A poem with color=red= in it
+.... ==
+=divide=
+=text=color=red= text-color=blue=
+==CTIW==`);
+		});
+	});
+
+	describe('Property Warnings', () => {
+		it('warns about properties that do not fit their element', () => {
+			const result = parse(`==CTIW==
+=button=Go= href=/home= outlne=visible=
+==CTIW==`);
+
+			expect(result.errors.map((error) => [error.column, error.severity, error.message])).toEqual([
+				[13, 'warning', "href= doesn't do anything on =button=. It works on =link= and =a="],
+				[25, 'warning', "Hmm, I don't know what outlne= does. Did you mean outline=?"]
+			]);
+		});
+	});
+
+	describe('Diagnostics', () => {
+		it('gives every problem a code, a severity and a range', () => {
+			const result = parse(`==CTIW==
+=buton=Click Me=
+==CTIW==`);
+
+			expect(result.errors).toEqual([
+				{
+					code: 'CTIW0020',
+					severity: 'warning',
+					message: "Hmm, I don't know an element called =buton=. Did you mean =button=?",
+					line: 2,
+					column: 2,
+					range: { start: { line: 2, column: 2 }, end: { line: 2, column: 7 } },
+					fixes: [
+						{
+							title: 'Change it to =button=',
+							edits: [{ range: { start: { line: 2, column: 2 }, end: { line: 2, column: 7 } }, text: 'button' }]
+						}
+					]
+				}
+			]);
+		});
+
+		it('points at the line that opened a box', () => {
+			const result = parse(`==CTIW==
+=ul=
+....=li=Item=
+=ol=
+==CTIW==`);
+
+			const mismatch = result.errors.find((error) => error.code === 'CTIW0033');
+			expect(mismatch?.related).toEqual([
+				{
+					message: 'The =ul= box opens here',
+					range: { start: { line: 2, column: 1 }, end: { line: 2, column: 5 } }
+				}
+			]);
+			expect(mismatch?.fixes).toEqual([
+				{
+					title: 'Change it to =ul=',
+					edits: [{ range: { start: { line: 4, column: 2 }, end: { line: 4, column: 4 } }, text: 'ul' }]
+				}
+			]);
+		});
+
+		it('points at the first use of a repeated line number', () => {
+			const result = parse(`==CTIW==
+10 =text=One=
+10 =text=Two=
+==CTIW==`);
+
+			expect(result.errors).toMatchObject([
+				{
+					code: 'CTIW0050',
+					range: { start: { line: 3, column: 1 }, end: { line: 3, column: 3 } },
+					related: [
+						{
+							message: 'Line number 10 is first used here',
+							range: { start: { line: 2, column: 1 }, end: { line: 2, column: 3 } }
+						}
+					]
+				}
+			]);
+		});
+
+		it('covers the dots of a line with the wrong dots', () => {
+			const result = parse(`==CTIW==
+=divide=
+.....==text==Inside==
+=divide=
+==CTIW==`, { dotsPerLevel: 4 });
+
+			expect(result.errors).toMatchObject([
+				{
+					code: 'CTIW0040',
+					severity: 'warning',
+					range: { start: { line: 3, column: 1 }, end: { line: 3, column: 6 } },
+					fixes: [
+						{
+							title: 'Use 4 dots',
+							edits: [{ range: { start: { line: 3, column: 1 }, end: { line: 3, column: 6 } }, text: '....' }]
+						}
+					]
+				}
+			]);
+		});
+	});
+
+	describe('Quick Fixes', () => {
+		it('fixes typos in elements, properties and colors', () => {
+			expect(
+				fixEverything(`==CTIW==
+=buton=Go= text-colr=bleu= color=red=
+==CTIW==`)
+			).toBe(`==CTIW==
+=button=Go= text-color=blue= background-color=red=
+==CTIW==`);
+		});
+
+		it('renames ids used twice or that are not valid, the way the page writes them', () => {
+			expect(fixEverything('==CTIW==\n=text=A= id:box=\n=text=B= id:box=\n=text=C= id:1st=\n==CTIW==')).toBe(
+				'==CTIW==\n=text=A= id:box=\n=text=B= id:box-2=\n=text=C= id:id-1st=\n==CTIW=='
+			);
+		});
+
+		it('adds a missing header, footer or =', () => {
+			expect(fixEverything('=text=Hi=\n')).toBe('==CTIW==\n=text=Hi=\n==CTIW==');
+			expect(fixEverything('==CTIW==\n=divide id:main=\n=divide=\n==CTIW==')).toBe(
+				'==CTIW==\n=divide= id:main=\n=divide=\n==CTIW=='
+			);
+			expect(fixEverything('==CTIW==\n=button=Click Me\n==text==Hi\n==CTIW==')).toBe(
+				'==CTIW==\n=button=Click Me=\n==text==Hi==\n==CTIW=='
+			);
+		});
+
+		it('adds the same kind of marker as the document already has', () => {
+			expect(fixEverything('=CTIW=\n=text=Hi=')).toBe('=CTIW=\n=text=Hi=\n=CTIW=');
+			expect(fixEverything('=text=Hi=\n=CTIW=')).toBe('=CTIW=\n=text=Hi=\n=CTIW=');
+			expect(parse('=CTIW=\n=text=Hi=').errors[0].message).toBe("Don't forget to end your code with =CTIW=");
+		});
+
+		it('still reads words that are missing their closing =', () => {
+			const result = parse('==CTIW==\n=button=Click Me\n==CTIW==');
+
+			expect((result.document.children[0] as ElementNode).content).toBe('Click Me');
+			expect(result.errors).toMatchObject([
+				{
+					code: 'CTIW0015',
+					message: "Don't forget the = after Click Me",
+					range: { start: { line: 2, column: 9 }, end: { line: 2, column: 17 } },
+					fixes: [{ title: 'Add = at the end' }]
+				}
+			]);
+		});
+
+		it('ends comments that never end, without adding a footer the comment hid', () => {
+			expect(fixEverything('==CTIW==\n=text=Hi=\n/* note\n==CTIW==')).toBe('==CTIW==\n=text=Hi=\n/* note */\n==CTIW==');
+			expect(fixEverything('==CTIW==\n/* note')).toBe('==CTIW==\n/* note */\n==CTIW==');
+		});
+
+		it('closes boxes that never got closed, innermost first', () => {
+			expect(
+				fixEverything(`==CTIW==
+=divide=
+....=ul=
+........=li=A=
+==CTIW==`)
+			).toBe(`==CTIW==
+=divide=
+....=ul=
+........=li=A=
+....=ul=
+=divide=
+==CTIW==`);
+		});
+
+		it('fixes dots and closers', () => {
+			expect(
+				fixEverything(`==CTIW==
+....==text==Floating=
+=ul=
+....=li=One=
+=li=Two=
+=ul=
+==CTIW==`)
+			).toBe(`==CTIW==
+==text==Floating=
+=ul=
+....=li=One=
+....=li=Two=
+=ul=
+==CTIW==`);
+			expect(fixEverything('==CTIW==\n=ul=\n....=li=One=\n....=ul=\n=ol=\n==CTIW==')).toBe(
+				'==CTIW==\n=ul=\n....=li=One=\n=ul=\n==CTIW=='
+			);
+		});
+
+		it('leaves code with nothing to fix alone', () => {
+			const source = `==CTIW==
+=divide=
+....==text==Inside==
+=divide=
+==CTIW==`;
+			expect(fixEverything(source)).toBe(source);
+		});
+	});
+
+	describe('Unknown Elements', () => {
+		it('warns about element names it does not know, but still makes them', () => {
+			const result = parse(`==CTIW==
+=buton=Click Me=
+==CTIW==`);
+
+			const element = result.document.children[0] as ElementNode;
+			expect(element.type).toBe('Element');
+			expect(element.elementType).toBe('buton');
+			expect(result.errors).toMatchObject([
+				{
+					message: "Hmm, I don't know an element called =buton=. Did you mean =button=?",
+					line: 2,
+					column: 2,
+					severity: 'warning'
+				}
+			]);
+		});
+
+		it('accepts HTML elements and custom elements with a dash', () => {
+			const result = parse(`==CTIW==
+=span=Hi=
+=my-widget=Hello=
+==CTIW==`);
+
+			expect(result.errors).toHaveLength(0);
+		});
+	});
+
+	describe('Typed Values', () => {
+		it('types property values', () => {
+			const result = parse(`==CTIW==
+=button=Go= background-color=FF0000= size=50%= disabled=yes=
+==CTIW==`);
+
+			const button = result.document.children[0] as ElementNode;
+			expect(result.errors).toHaveLength(0);
+			expect(button.properties.size).toBe('50%');
+			expect(button.values).toEqual({
+				'background-color': { kind: 'color', css: '#FF0000' },
+				size: { kind: 'length', value: 50, unit: '%' },
+				disabled: { kind: 'boolean', value: true }
+			});
+		});
+
+		it('reports values that are not valid where they are', () => {
+			const result = parse(`==CTIW==
+=button= text-color=BAF2Y9=
+==CTIW==`);
+
+			const button = result.document.children[0] as ElementNode;
+			expect(result.errors).toMatchObject([
+				{ message: "BAF2Y9 isn't a real color, Y isn't a hex digit", line: 2, column: 21 }
+			]);
+			expect(button.properties['text-color']).toBe('BAF2Y9');
+			expect(button.values).toEqual({});
+		});
+	});
+
+	describe('Escapes and Quotes', () => {
+		it('unescapes content and values', () => {
+			const source = `==CTIW==
+=text=2+2\\=4=
+==text=="Say \\"a == b\\""==
+=link=Search= href="https://example.com/?q=cats&page=2"= title=Hi\\ there=
+==CTIW==`;
+			const result = parse(source);
+
+			expect(result.errors).toEqual([]);
+			const [sum, quote, link] = result.document.children as ElementNode[];
+			expect(sum.content).toBe('2+2=4');
+			expect(quote.content).toBe('Say "a == b"');
+			expect(link.properties.href).toBe('https://example.com/?q=cats&page=2');
+			expect(link.properties.title).toBe('Hi there');
+		});
+
+		it('unescapes document properties', () => {
+			const result = parse(`==CTIW==
+=title="Me = Happy"=
+==CTIW==`);
+
+			expect(result.document.metadata.title).toBe('Me = Happy');
+		});
+	});
+
+	describe('Inline Formatting', () => {
+		it('parses inline formatting in content', () => {
+			const result = parse(`==CTIW==
+=text=I *really* like {red: apples}=
+==text=="2+2=4" is _true_==
+=button=Go :rocket:=
+=text=Just words=
+=img=my_*cat*.png=
+==CTIW==`);
+
+			expect(result.errors).toEqual([]);
+			const [like, sum, button, plain, img] = result.document.children as ElementNode[];
+			expect(like.content).toBe('I really like apples');
+			expect(like.inline?.map((node) => node.type)).toEqual([
+				'InlineText',
+				'InlineStyle',
+				'InlineText',
+				'InlineColor'
+			]);
+			expect(sum.content).toBe('2+2=4 is true');
+			expect(button.content).toBe('Go 🚀');
+			expect(plain.inline).toBeUndefined();
+			expect(img.content).toBe('my_*cat*.png');
+			expect(img.inline).toBeUndefined();
+		});
+
+		it('formats text blocks', () => {
+			const result = parse(`==CTIW==
+=text=
+Roses are *red*
+=
+==CTIW==`);
+			const text = result.document.children[0] as ElementNode;
+
+			expect(text.content).toBe('Roses are red');
+			expect(text.contentLines?.[0].text).toBe('Roses are *red*');
+			expect(text.inline).toBeDefined();
+		});
+	});
+
+	describe('Text Blocks', () => {
+		it('keeps the line breaks of a text block', () => {
+			const source = `==CTIW==
+==text== text-color=red=
+
+Roses are red,
+  Violets are blue
+
+Sugar is sweet
+==
+==CTIW==`;
+			const result = parse(source);
+
+			expect(result.errors).toEqual([]);
+			const text = result.document.children[0] as ElementNode;
+			expect(text.content).toBe('Roses are red,\nViolets are blue\n\nSugar is sweet');
+			expect(text.properties['text-color']).toBe('red');
+			expect(text.location.end.line).toBe(8);
+			expect(text.contentLines?.[1]).toEqual({
+				text: 'Violets are blue',
+				location: { start: { line: 5, column: 3 }, end: { line: 5, column: 19 } }
+			});
+		});
+
+		it('nests a text block inside a container', () => {
+			const source = `==CTIW==
+=divide=
+....=text=
+Once upon a time
+....=
+....=button=Next=
+=divide=
+==CTIW==`;
+			const result = parse(source);
+
+			expect(result.errors).toEqual([]);
+			const divide = result.document.children[0] as ElementNode;
+			expect(divide.children.map((child) => (child as ElementNode).content)).toEqual([
+				'Once upon a time',
+				'Next'
+			]);
+		});
+
+		it('takes the dots of the nesting level off the lines of a nested text block', () => {
+			const source = `==CTIW==
+=divide=
+....=text=
+....Roses are red
+...
+........Violets are blue
+....=
+=divide=
+==CTIW==`;
+			const text = (parse(source).document.children[0] as ElementNode).children[0] as ElementNode;
+
+			expect(text.content).toBe('Roses are red\n\n....Violets are blue');
+			expect(text.contentLines?.[0].location).toEqual({
+				start: { line: 4, column: 5 },
+				end: { line: 4, column: 18 }
+			});
+		});
+
+		it('leaves the block lines alone when fixing indentation', () => {
+			const source = `==CTIW==
+=divide=
+=text=
+Once upon a time
+=
+=divide=
+==CTIW==`;
+
+			expect(fixIndentation(source)).toBe(`==CTIW==
+=divide=
+....=text=
+Once upon a time
+....=
+=divide=
+==CTIW==`);
+		});
+
+		it('treats an empty text without a closing line as before', () => {
+			const source = `==CTIW==
+=text=
+=button=Go=
+==CTIW==`;
+			const result = parse(source);
+
+			expect(result.errors).toEqual([]);
+			expect(result.document.children.length).toBe(2);
+			expect((result.document.children[0] as ElementNode).content).toBeNull();
+		});
+
+		it('does not look for the closing line past the next statement', () => {
+			const source = `==CTIW==
+=text=
+=button=Go=
+==text==
+Roses are red
+==
+==CTIW==`;
+			const result = parse(source);
+
+			expect(result.errors).toEqual([]);
+			expect(result.document.children.map((child) => (child as ElementNode).content)).toEqual([
+				null,
+				'Go',
+				'Roses are red'
+			]);
+		});
+	});
+
 	describe('Complex Examples', () => {
 		it('parses the complete example from the spec', () => {
 			const source = `==CTIW==
@@ -357,7 +1467,7 @@ describe('CTIW Parser', () => {
 =language=english=
 =font-size=20=
 
-=divide= id:header= outline=visible= color=BAF2Y9=
+=divide= id:header= outline=visible= color=BAF2E9=
 ....=title=Welcome!=
 =divide=
 
@@ -432,6 +1542,77 @@ describe('CTIW Parser', () => {
 		});
 	});
 
+	describe('Error Nodes', () => {
+		it('keeps a bad line in the tree as an ErrorNode', () => {
+			const source = `==CTIW==
+==text==Before=
+=bad syntax here
+==text==After=
+==CTIW==`;
+			const result = parse(source);
+
+			expect(result.document.children.map((child) => child.type)).toEqual([
+				'Element',
+				'Error',
+				'Element'
+			]);
+			const error = result.document.children[1] as ErrorNode;
+			expect(error.message).toBe('Expected = after the name');
+			expect(error.sourceText).toBe('=bad syntax here');
+		});
+
+		it('records the exact span of the broken line', () => {
+			const source = `==CTIW==
+=divide=
+....=button Click=   
+=divide=
+==CTIW==`;
+			const result = parse(source);
+
+			const divide = result.document.children[0] as ElementNode;
+			const error = divide.children[0] as ErrorNode;
+			expect(error.type).toBe('Error');
+			expect(error.location).toEqual({
+				start: { line: 3, column: 5 },
+				end: { line: 3, column: 19 },
+				source: '=button Click='
+			});
+		});
+
+		it('keeps a line of unknown characters', () => {
+			const source = `==CTIW==
+  $$$
+==CTIW==`;
+			const result = parse(source);
+
+			const error = result.document.children[0] as ErrorNode;
+			expect(error.type).toBe('Error');
+			expect(error.sourceText).toBe('$$$');
+			expect(result.errors).toMatchObject([
+				{ message: expect.stringContaining('Lines should start with ='), line: 2, column: 3 }
+			]);
+		});
+
+		it('keeps children nested inside a broken container', () => {
+			const source = `==CTIW==
+=divide id:main=
+....==text==Inside=
+....=button=Click=
+=divide=
+==text==Outside=
+==CTIW==`;
+			const result = parse(source);
+
+			expect(result.document.children.length).toBe(2);
+			const error = result.document.children[0] as ErrorNode;
+			expect(error.type).toBe('Error');
+			expect(error.containerType).toBe('divide');
+			expect(error.children.length).toBe(2);
+			expect((error.children[1] as ElementNode).elementType).toBe('button');
+			expect((result.document.children[1] as ElementNode).content).toBe('Outside');
+		});
+	});
+
 	describe('Error Handling', () => {
 		it('provides position info in errors', () => {
 			const source = `==CTIW==
@@ -456,6 +1637,37 @@ describe('CTIW Parser', () => {
 			expect(result.document.children.length).toBeGreaterThanOrEqual(1);
 		});
 
+		it('reports the column of the problem', () => {
+			const source = `==CTIW==
+....=button Click=
+==CTIW==`;
+			const result = parse(source);
+
+			expect(result.errors).toContainEqual(
+				expect.objectContaining({ message: 'Expected = after the name', line: 2, column: 12 })
+			);
+		});
+
+		it('includes lexer errors in the result', () => {
+			const source = `==CTIW==
+=(time)= $
+==CTIW==`;
+			const result = parse(source);
+
+			expect(result.errors.length).toBe(1);
+			expect(result.errors[0]).toMatchObject({ line: 2, column: 10 });
+		});
+
+		it('reports one error for a line it cannot understand', () => {
+			const source = `==CTIW==
+hello $ world
+==CTIW==`;
+			const result = parse(source);
+
+			expect(result.errors.length).toBe(1);
+			expect(result.errors[0].message).toContain('Lines should start with =');
+		});
+
 		it('handles unmatched divide gracefully', () => {
 			const source = `==CTIW==
 =divide= id:start=
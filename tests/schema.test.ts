@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { propertyRole, propertiesFor, validateProperties } from '$lib/parser/schema';
+import { parse } from '$lib/parser/parser';
+
+describe('Property Schema', () => {
+	describe('propertyRole', () => {
+		it('knows the attributes of each element', () => {
+			expect(propertyRole('link', 'href')).toBe('attribute');
+			expect(propertyRole('img', 'alt')).toBe('attribute');
+			expect(propertyRole('input', 'placeholder')).toBe('attribute');
+			expect(propertyRole('button', 'id')).toBe('attribute');
+			expect(propertyRole('divide', 'aria-label')).toBe('attribute');
+		});
+
+		it('finds attributes on the wrong element', () => {
+			expect(propertyRole('button', 'href')).toBe('misplaced');
+			expect(propertyRole('text', 'src')).toBe('misplaced');
+		});
+
+		it('lets elements it does not know keep their attributes', () => {
+			expect(propertyRole('my-widget', 'href')).toBe('attribute');
+		});
+
+		it('treats styles as styles everywhere', () => {
+			expect(propertyRole('divide', 'width')).toBe('style');
+			expect(propertyRole('img', 'width')).toBe('attribute');
+			expect(propertyRole('text', 'text-color')).toBe('style');
+			expect(propertyRole('text', 'colr')).toBe('unknown');
+		});
+	});
+
+	describe('propertiesFor', () => {
+		it("lists an element's own attributes first", () => {
+			const properties = propertiesFor('link');
+			expect(properties.slice(0, 2)).toEqual(['href', 'target']);
+			expect(properties).toContain('text-color');
+			expect(properties).not.toContain('src');
+		});
+
+		it('leaves out older properties', () => {
+			expect(propertiesFor('divide')).not.toContain('color');
+		});
+	});
+
+	describe('validateProperties', () => {
+		const warnings = (line: string) =>
+			validateProperties(parse(`==CTIW==\n${line}\n==CTIW==`).document);
+
+		it('suggests the closest property for unknown ones', () => {
+			expect(warnings('=text=Hi= text-colr=red=')).toMatchObject([
+				{
+					message: "Hmm, I don't know what text-colr= does. Did you mean text-color=?",
+					line: 2,
+					column: 11,
+					severity: 'warning',
+					code: 'CTIW0021',
+					range: { start: { line: 2, column: 11 }, end: { line: 2, column: 20 } },
+					fixes: [{ title: 'Change it to text-color=' }]
+				}
+			]);
+			expect(warnings('=img=cat.png= atl=A cat=')[0].message).toBe(
+				"Hmm, I don't know what atl= does. Did you mean alt=?"
+			);
+			expect(warnings('=text=Hi= sparkle=yes=')[0].message).toBe("Hmm, I don't know what sparkle= does");
+		});
+
+		it('does not suggest older properties', () => {
+			const [warning] = warnings('=text=Hi= colr=red=');
+			expect(warning.message).toBe("Hmm, I don't know what colr= does");
+			expect(warning.fixes).toBeUndefined();
+		});
+
+		it('says where misplaced attributes work', () => {
+			expect(warnings('=button=Go= href=https://example.com=')[0].message).toBe(
+				"href= doesn't do anything on =button=. It works on =link= and =a="
+			);
+		});
+
+		it('accepts properties that fit', () => {
+			expect(warnings('=link=Home= href=/home= target=_blank= text-color=red= padding=10=')).toEqual([]);
+			expect(warnings('=divide= data-kind=box= aria-label=Box= width=200=')).toEqual([]);
+		});
+	});
+});
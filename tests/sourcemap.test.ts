@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import {
+	encodeVLQ,
+	createSourceMap,
+	positionAt,
+	findSourceAttributes
+} from '$lib/parser/sourcemap';
+
+describe('encodeVLQ', () => {
+	it('encodes small numbers in one digit, with the sign in the lowest bit', () => {
+		expect(encodeVLQ(0)).toBe('A');
+		expect(encodeVLQ(1)).toBe('C');
+		expect(encodeVLQ(-1)).toBe('D');
+		expect(encodeVLQ(15)).toBe('e');
+	});
+
+	it('carries bigger numbers over into more digits', () => {
+		expect(encodeVLQ(16)).toBe('gB');
+		expect(encodeVLQ(-16)).toBe('hB');
+		expect(encodeVLQ(1000)).toBe('w+B');
+	});
+});
+
+describe('createSourceMap', () => {
+	it('writes one group per generated line, with fields relative to the ones before', () => {
+		const map = createSourceMap([
+			{ generated: { line: 3, column: 5 }, original: { line: 4, column: 1 } },
+			{ generated: { line: 1, column: 1 }, original: { line: 2, column: 1 } },
+			{ generated: { line: 3, column: 1 }, original: { line: 3, column: 4 } }
+		]);
+
+		expect(map).toEqual({
+			version: 3,
+			sources: ['page.ctiw'],
+			names: [],
+			mappings: 'AACA;;AACG,IACH'
+		});
+	});
+
+	it('names the files and can hold the CTIW code', () => {
+		const map = createSourceMap([], { file: 'page.html', sourceName: 'rocket.ctiw', sourceContent: '=CTIW=' });
+
+		expect(map).toEqual({
+			version: 3,
+			file: 'page.html',
+			sources: ['rocket.ctiw'],
+			sourcesContent: ['=CTIW='],
+			names: [],
+			mappings: ''
+		});
+	});
+});
+
+describe('positionAt', () => {
+	it('finds the line and column of an offset', () => {
+		expect(positionAt('ab\ncd\nef', 0)).toEqual({ line: 1, column: 1 });
+		expect(positionAt('ab\ncd\nef', 4)).toEqual({ line: 2, column: 2 });
+		expect(positionAt('ab\ncd\nef', 6)).toEqual({ line: 3, column: 1 });
+	});
+});
+
+describe('findSourceAttributes', () => {
+	it('maps the start of each marked tag to its CTIW position', () => {
+		const html = '<body>\n  <h1 data-ctiw-line="2" data-ctiw-column="1">Hi</h1>\n  <p>No mark</p>\n</body>';
+
+		expect(findSourceAttributes(html)).toEqual([
+			{ generated: { line: 2, column: 3 }, original: { line: 2, column: 1 } }
+		]);
+	});
+
+	it("doesn't find marks written as words", () => {
+		const html = '<p>&lt;h1 data-ctiw-line=&quot;2&quot; data-ctiw-column=&quot;1&quot;&gt;</p>';
+
+		expect(findSourceAttributes(html)).toEqual([]);
+	});
+});
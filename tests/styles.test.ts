@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import {
+	resolveStyles,
+	formatDeclarations,
+	formatRule,
+	styleClassName,
+	emitStyles,
+	STYLE_EMITTERS
+} from '$lib/parser/styles';
+import { createElement } from '$lib/parser/ast';
+
+describe('resolveStyles', () => {
+	it("turns CTIW properties into the CSS they mean", () => {
+		const element = createElement('text', {
+			properties: {
+				'text-color': 'red',
+				color: 'blue',
+				in: 'middle',
+				outline: 'visible',
+				size: 'big',
+				'border-color': 'green'
+			}
+		});
+
+		expect(resolveStyles(element)).toEqual([
+			{ property: 'color', value: 'red' },
+			{ property: 'background-color', value: 'blue' },
+			{ property: 'text-align', value: 'center' },
+			{ property: 'border-width', value: '1px' },
+			{ property: 'border-style', value: 'solid' },
+			{ property: 'font-size', value: '32px' },
+			{ property: 'border-color', value: 'green' }
+		]);
+	});
+
+	it('gives a border color a border only when the element has none', () => {
+		const colored = createElement('divide', { properties: { 'border-color': 'green' } });
+		const bordered = createElement('divide', { properties: { 'border-color': 'green', border: '3px dashed' } });
+
+		expect(resolveStyles(colored)).toEqual([
+			{ property: 'border-width', value: '2px' },
+			{ property: 'border-style', value: 'solid' },
+			{ property: 'border-color', value: 'green' }
+		]);
+		expect(resolveStyles(bordered)).toEqual([
+			{ property: 'border-color', value: 'green' },
+			{ property: 'border', value: '3px dashed' }
+		]);
+	});
+
+	it('passes CSS properties through with their values formatted', () => {
+		const element = createElement('divide', { properties: { width: '100', 'border-radius': '8' } });
+
+		expect(resolveStyles(element)).toEqual([
+			{ property: 'width', value: '100px' },
+			{ property: 'border-radius', value: '8px' }
+		]);
+	});
+
+	it('leaves out attributes, misplaced properties and values that are not valid', () => {
+		const element = createElement('button', {
+			properties: { id: 'go', href: 'page.html', 'text-color': 'purpel', 'bad property': 'x' }
+		});
+
+		expect(resolveStyles(element)).toEqual([]);
+	});
+});
+
+describe('formatting', () => {
+	it('writes declarations and rules', () => {
+		const declarations = [
+			{ property: 'color', value: 'red' },
+			{ property: 'border', value: 'none' }
+		];
+
+		expect(formatDeclarations(declarations)).toBe('color: red; border: none');
+		expect(formatRule({ selector: '#box', declarations })).toBe('#box { color: red; border: none; }');
+	});
+});
+
+describe('styleClassName', () => {
+	it('names the same styles the same way, and different styles differently', () => {
+		const red = styleClassName([{ property: 'color', value: 'red' }]);
+
+		expect(red).toMatch(/^ctiw-[a-z0-9]+$/);
+		expect(styleClassName([{ property: 'color', value: 'red' }])).toBe(red);
+		expect(styleClassName([{ property: 'color', value: 'blue' }])).not.toBe(red);
+	});
+});
+
+describe('emitStyles', () => {
+	const withId = createElement('text', { properties: { id: 'hi', 'text-color': 'red' } });
+	const withoutId = createElement('text', { properties: { 'text-color': 'red' } });
+	const red = [{ property: 'color', value: 'red' }];
+
+	it('uses #id rules, and classes without an id, by default', () => {
+		const className = styleClassName(red);
+
+		expect(emitStyles(withId)).toEqual({ rule: { selector: '#hi', declarations: red } });
+		expect(emitStyles(withoutId)).toEqual({ className, rule: { selector: `.${className}`, declarations: red } });
+	});
+
+	it('emits nothing for elements without styles', () => {
+		expect(emitStyles(createElement('text', { properties: { id: 'hi' } }), 'class')).toEqual({});
+	});
+
+	it('emits with each strategy', () => {
+		const className = styleClassName(red);
+
+		expect(emitStyles(withId, 'class')).toEqual({ className, rule: { selector: `.${className}`, declarations: red } });
+		expect(emitStyles(withId, 'inline')).toEqual({ inline: red });
+		expect(emitStyles(withId, 'custom-properties')).toEqual({
+			rule: {
+				selector: '#hi',
+				declarations: [
+					{ property: '--ctiw-color', value: 'red' },
+					{ property: 'color', value: 'var(--ctiw-color)' }
+				]
+			}
+		});
+	});
+
+	it('has an emitter for every strategy', () => {
+		expect(Object.keys(STYLE_EMITTERS)).toEqual(['id', 'class', 'inline', 'custom-properties']);
+	});
+});
@@ -0,0 +1,20 @@
+import { describe, it, expect } from 'vitest';
+import { findClosest } from '$lib/parser/suggest';
+
+describe('findClosest', () => {
+	it('finds the word a typo was meant to be', () => {
+		expect(findClosest('bleu', ['red', 'blue'])).toBe('blue');
+		expect(findClosest('Buton', ['title', 'button'])).toBe('button');
+		expect(findClosest('outlien', ['outline', 'in'])).toBe('outline');
+	});
+
+	it('gives up when nothing is close', () => {
+		expect(findClosest('zzz', ['red', 'blue'])).toBeNull();
+		expect(findClosest('ab', ['abcdef'])).toBeNull();
+		expect(findClosest('x', ['a', 'b'])).toBeNull();
+	});
+
+	it('prefers earlier candidates on ties', () => {
+		expect(findClosest('cat', ['bat', 'hat'])).toBe('bat');
+	});
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { parseValue, formatCSSValue, isSafeUrl } from '$lib/parser/values';
+
+describe('Property Values', () => {
+	describe('parseValue', () => {
+		it('types colors', () => {
+			expect(parseValue('color', 'FF0000')).toEqual({ ok: true, value: { kind: 'color', css: '#FF0000' } });
+			expect(parseValue('color', '#ff0000')).toEqual({ ok: true, value: { kind: 'color', css: '#ff0000' } });
+			expect(parseValue('background-color', 'Blue')).toEqual({
+				ok: true,
+				value: { kind: 'color', css: 'blue' }
+			});
+		});
+
+		it('says which character makes a color not real', () => {
+			expect(parseValue('color', 'BAF2Y9')).toEqual({
+				ok: false,
+				message: "BAF2Y9 isn't a real color, Y isn't a hex digit"
+			});
+			expect(parseValue('color', 'F0000')).toEqual({
+				ok: false,
+				message:
+					"F0000 isn't a real color. Color codes need 3, 6 or 8 letters/numbers, like F00 or FF0000 for red, or FF000080 for see-through red!"
+			});
+		});
+
+		it('types lengths, with px when there is no unit', () => {
+			expect(parseValue('size', '100')).toEqual({ ok: true, value: { kind: 'length', value: 100, unit: 'px' } });
+			expect(parseValue('size', 100)).toEqual({ ok: true, value: { kind: 'length', value: 100, unit: 'px' } });
+			expect(parseValue('width', '50%')).toEqual({ ok: true, value: { kind: 'length', value: 50, unit: '%' } });
+			expect(parseValue('font-size', '1.5EM')).toEqual({
+				ok: true,
+				value: { kind: 'length', value: 1.5, unit: 'em' }
+			});
+			expect(parseValue('margin', 'auto')).toEqual({ ok: true, value: { kind: 'keyword', value: 'auto' } });
+			expect(parseValue('padding', '10 20%')).toEqual({ ok: true, value: { kind: 'text', value: '10px 20%' } });
+			expect(parseValue('width', 'big')).toEqual({
+				ok: false,
+				message: "big isn't a size. Use a number like 100, or a number and a unit like 50%"
+			});
+		});
+
+		it('types named sizes for size', () => {
+			expect(parseValue('size', 'Big')).toEqual({ ok: true, value: { kind: 'keyword', value: 'big' } });
+			expect(parseValue('size', '150%')).toEqual({ ok: true, value: { kind: 'length', value: 150, unit: '%' } });
+			expect(parseValue('size', 'gigantic')).toEqual({
+				ok: false,
+				message: "gigantic isn't a size. Use a number like 100, a percent like 50%, or tiny, small, medium, big, huge"
+			});
+		});
+
+		it('types numbers', () => {
+			expect(parseValue('opacity', '0.5')).toEqual({ ok: true, value: { kind: 'number', value: 0.5 } });
+			expect(parseValue('line-height', '1.5')).toEqual({ ok: true, value: { kind: 'number', value: 1.5 } });
+			expect(parseValue('line-height', '20px')).toEqual({
+				ok: true,
+				value: { kind: 'length', value: 20, unit: 'px' }
+			});
+			expect(parseValue('z-index', 'top')).toEqual({ ok: false, message: "top isn't a number" });
+		});
+
+		it('types keywords', () => {
+			expect(parseValue('in', 'Middle')).toEqual({ ok: true, value: { kind: 'keyword', value: 'middle' } });
+			expect(parseValue('outline', 'shiny')).toEqual({
+				ok: false,
+				message: "shiny isn't a choice for outline. Try: visible, invisible"
+			});
+		});
+
+		it('types yes/no settings', () => {
+			expect(parseValue('disabled', 'yes')).toEqual({ ok: true, value: { kind: 'boolean', value: true } });
+			expect(parseValue('disabled', 'NO')).toEqual({ ok: true, value: { kind: 'boolean', value: false } });
+			expect(parseValue('disabled', '')).toEqual({ ok: true, value: { kind: 'boolean', value: true } });
+			expect(parseValue('required', 'maybe')).toEqual({ ok: false, message: 'maybe should be yes or no' });
+		});
+
+		it('types links and leaves everything else as text', () => {
+			expect(parseValue('href', 'https://example.com')).toEqual({
+				ok: true,
+				value: { kind: 'url', value: 'https://example.com' }
+			});
+			expect(parseValue('href', 'javascript:alert(1)').ok).toBe(false);
+			expect(parseValue('title', 'Hi there')).toEqual({ ok: true, value: { kind: 'text', value: 'Hi there' } });
+			expect(parseValue('color', '')).toEqual({ ok: true, value: { kind: 'text', value: '' } });
+		});
+
+		it("doesn't mistake object keys for choices", () => {
+			expect(parseValue('in', 'constructor').ok).toBe(false);
+			expect(parseValue('disabled', 'toString').ok).toBe(false);
+		});
+	});
+
+	describe('formatCSSValue', () => {
+		it('formats typed values for CSS', () => {
+			expect(formatCSSValue({ kind: 'color', css: '#FF0000' })).toBe('#FF0000');
+			expect(formatCSSValue({ kind: 'length', value: 50, unit: '%' })).toBe('50%');
+			expect(formatCSSValue({ kind: 'number', value: 0.5 })).toBe('0.5');
+			expect(formatCSSValue({ kind: 'keyword', value: 'auto' })).toBe('auto');
+		});
+	});
+
+	describe('isSafeUrl', () => {
+		it('allows web, email and same-site links only', () => {
+			expect(isSafeUrl('https://example.com')).toBe(true);
+			expect(isSafeUrl('mailto:me@example.com')).toBe(true);
+			expect(isSafeUrl('cat.png')).toBe(true);
+			expect(isSafeUrl('JavaScript:alert(1)')).toBe(false);
+			expect(isSafeUrl('data:text/html,hi')).toBe(false);
+		});
+	});
+});